@@ -3,7 +3,7 @@
  * file contains code that extends the knockout object by including a custom knockout monaco editor 
  * binding handler. Also attached to the global knockout object is a editor collection object for persisting and manipulating editor
  * instances. Finally, file contains code that registers the binding handler, generates custom editor store,
- * and configures size updates and layout updates between window object and all editor instances created by binding handler.
+ * and keeps the layout of every editor instance created by binding handler in step with the size of its DOM element.
  *
  * @summary   Monaco-editor knockout binding handler
  *
@@ -37,19 +37,373 @@
 module my
 {
     const editorDomElementIdPrefix: string = 'knockout-monaco-';
+    const markerOwnerPrefix: string = 'knockout-monaco-markers-';
+    const sizePollInterval: number = 250;
+    const defaultAmdModule: string = 'vs/editor/editor.main';
+    const lazyCreateMargin: string = '200px';
+    const lazyDisposeMargin: string = '2000px';
+    const viewStateKeyPrefix: string = 'knockout-monaco-view-state-';
+    const viewStateSaveDelay: number = 500;
+    const maxLineDiffSize: number = 1000000;
+    const editorComponentName: string = 'monaco-editor';
+    const editorComponentTools: string[] = [ 'language', 'theme', 'fontSize', 'wrap', 'format', 'find' ];
+    const editorComponentTemplate: string = `
+        <div class="me-toolbar" data-bind="visible: hasToolbar">
+            <!-- ko if: hasTool( 'language' ) -->
+            <select class="me-toolbar-language" title="language" data-bind="options: languages, value: language, valueAllowUnset: true"></select>
+            <!-- /ko -->
+            <!-- ko if: hasTool( 'theme' ) -->
+            <select class="me-toolbar-theme" title="theme" data-bind="options: themes, value: theme, valueAllowUnset: true"></select>
+            <!-- /ko -->
+            <!-- ko if: hasTool( 'fontSize' ) -->
+            <button type="button" class="me-toolbar-font-smaller" title="smaller font" data-bind="click: decreaseFontSize">A-</button>
+            <span class="me-toolbar-font-size" data-bind="text: fontSize"></span>
+            <button type="button" class="me-toolbar-font-larger" title="larger font" data-bind="click: increaseFontSize">A+</button>
+            <!-- /ko -->
+            <!-- ko if: hasTool( 'wrap' ) -->
+            <label class="me-toolbar-wrap"><input type="checkbox" data-bind="checked: wordWrap"> wrap</label>
+            <!-- /ko -->
+            <!-- ko if: hasTool( 'format' ) -->
+            <button type="button" class="me-toolbar-format" data-bind="click: format, enable: editor">format</button>
+            <!-- /ko -->
+            <!-- ko if: hasTool( 'find' ) -->
+            <button type="button" class="me-toolbar-find" data-bind="click: find, enable: editor">find</button>
+            <!-- /ko -->
+            <!-- ko if: toolbarTemplate -->
+            <!-- ko template: { name: toolbarTemplate } --><!-- /ko -->
+            <!-- /ko -->
+            <!-- ko template: { nodes: $componentTemplateNodes } --><!-- /ko -->
+        </div>
+        <div class="me-editor" data-bind="attr: { id: id }, koMonacoEditor: value, meOptions: options, meEditor: editor"></div>`;
+
+    /**
+     * the types allowed for each monaco editor and diff editor option, as returned by typeof
+     */
+    const editorOptionTypes: { [ key: string ]: string[] } = {
+        model: [ 'object' ],
+        value: [ 'string' ],
+        language: [ 'string' ],
+        theme: [ 'string' ],
+        accessibilityHelpUrl: [ 'string' ],
+        ariaLabel: [ 'string' ],
+        rulers: [ 'object' ],
+        wordSeparators: [ 'string' ],
+        selectionClipboard: [ 'boolean' ],
+        lineNumbers: [ 'string', 'function' ],
+        selectOnLineNumbers: [ 'boolean' ],
+        lineNumbersMinChars: [ 'number' ],
+        glyphMargin: [ 'boolean' ],
+        lineDecorationsWidth: [ 'number', 'string' ],
+        revealHorizontalRightPadding: [ 'number' ],
+        roundedSelection: [ 'boolean' ],
+        extraEditorClassName: [ 'string' ],
+        readOnly: [ 'boolean' ],
+        scrollbar: [ 'object' ],
+        minimap: [ 'object' ],
+        find: [ 'object' ],
+        fixedOverflowWidgets: [ 'boolean' ],
+        overviewRulerLanes: [ 'number' ],
+        overviewRulerBorder: [ 'boolean' ],
+        cursorBlinking: [ 'string' ],
+        mouseWheelZoom: [ 'boolean' ],
+        cursorStyle: [ 'string' ],
+        fontLigatures: [ 'boolean' ],
+        disableLayerHinting: [ 'boolean' ],
+        disableMonospaceOptimizations: [ 'boolean' ],
+        hideCursorInOverviewRuler: [ 'boolean' ],
+        scrollBeyondLastLine: [ 'boolean' ],
+        automaticLayout: [ 'boolean' ],
+        wordWrap: [ 'string' ],
+        wordWrapColumn: [ 'number' ],
+        wordWrapMinified: [ 'boolean' ],
+        wrappingIndent: [ 'string' ],
+        wordWrapBreakBeforeCharacters: [ 'string' ],
+        wordWrapBreakAfterCharacters: [ 'string' ],
+        wordWrapBreakObtrusiveCharacters: [ 'string' ],
+        stopRenderingLineAfter: [ 'number' ],
+        hover: [ 'boolean' ],
+        links: [ 'boolean' ],
+        contextmenu: [ 'boolean' ],
+        mouseWheelScrollSensitivity: [ 'number' ],
+        multiCursorModifier: [ 'string' ],
+        accessibilitySupport: [ 'string' ],
+        quickSuggestions: [ 'boolean', 'object' ],
+        quickSuggestionsDelay: [ 'number' ],
+        parameterHints: [ 'boolean' ],
+        iconsInSuggestions: [ 'boolean' ],
+        autoClosingBrackets: [ 'boolean' ],
+        autoIndent: [ 'boolean' ],
+        formatOnType: [ 'boolean' ],
+        formatOnPaste: [ 'boolean' ],
+        dragAndDrop: [ 'boolean' ],
+        suggestOnTriggerCharacters: [ 'boolean' ],
+        acceptSuggestionOnEnter: [ 'string' ],
+        acceptSuggestionOnCommitCharacter: [ 'boolean' ],
+        snippetSuggestions: [ 'string' ],
+        emptySelectionClipboard: [ 'boolean' ],
+        wordBasedSuggestions: [ 'boolean' ],
+        suggestFontSize: [ 'number' ],
+        suggestLineHeight: [ 'number' ],
+        selectionHighlight: [ 'boolean' ],
+        occurrencesHighlight: [ 'boolean' ],
+        codeLens: [ 'boolean' ],
+        folding: [ 'boolean' ],
+        showFoldingControls: [ 'string' ],
+        matchBrackets: [ 'boolean' ],
+        renderWhitespace: [ 'string' ],
+        renderControlCharacters: [ 'boolean' ],
+        renderIndentGuides: [ 'boolean' ],
+        renderLineHighlight: [ 'string' ],
+        useTabStops: [ 'boolean' ],
+        fontFamily: [ 'string' ],
+        fontWeight: [ 'string' ],
+        fontSize: [ 'number' ],
+        lineHeight: [ 'number' ],
+        letterSpacing: [ 'number' ],
+        enableSplitViewResizing: [ 'boolean' ],
+        renderSideBySide: [ 'boolean' ],
+        ignoreTrimWhitespace: [ 'boolean' ],
+        renderIndicators: [ 'boolean' ],
+        originalEditable: [ 'boolean' ]
+    };
+
+    /**
+     * How the store gets hold of monaco before creating editors
+     * 
+     * @export
+     * @interface IMonacoLoaderOptions
+     */
+    export interface IMonacoLoaderOptions
+    {
+        /**
+         * 'amd' requires monaco with the global AMD loader, 'global' uses a monaco that is already on the page and 
+         * 'custom' calls 'load'. defaults to 'amd', or 'custom' when 'load' is given
+         */
+        type?: 'amd' | 'global' | 'custom';
+
+        /**
+         * the AMD module to require. defaults to 'vs/editor/editor.main'
+         */
+        path?: string;
+
+        /**
+         * the location of monaco's 'vs' folder, passed to the AMD loader's configuration when given
+         */
+        vsPath?: string;
+
+        /**
+         * a function resolving with the monaco namespace, for example a dynamic import of the monaco-editor package
+         */
+        load?: () => Promise<typeof monaco>;
+    }
+
+    /**
+     * A live text model in the store along with the editors that show it
+     * 
+     * @export
+     * @interface IMonacoEditorModelInfo
+     */
+    export interface IMonacoEditorModelInfo
+    {
+        /**
+         * the model's uri
+         */
+        uri: string;
+        model: monaco.editor.IModel;
+
+        /**
+         * the unique ids of the editors and diff editors using the model
+         */
+        editorIds: string[];
+    }
+
+    /**
+     * The value passed to subscribers of the store's 'onCreated' and 'onDisposed' events
+     * 
+     * @export
+     * @interface IMonacoEditorStoreEvent
+     */
+    export interface IMonacoEditorStoreEvent
+    {
+        /**
+         * the unique id of the editor's DOM element
+         */
+        id: string;
+
+        /**
+         * the editor, or for a diff editor its modified editor
+         */
+        editor: monaco.editor.ICodeEditor;
+    }
+
+    /**
+     * A document that can be opened in a editor bound with 'meDocuments'. every document gets its own model and its
+     * text is kept in sync with that model
+     * 
+     * @export
+     * @interface IMonacoEditorDocument
+     */
+    export interface IMonacoEditorDocument
+    {
+        uri: string;
+        language?: string;
+        text: KnockoutObservable<string>;
+    }
+
+    /**
+     * A editor action bound with 'meActions'. keybindings are monaco keybinding numbers or strings such as 
+     * 'CtrlCmd+S', 'Ctrl+Enter' or 'F8'. run is called with the view model as 'this'
+     * 
+     * @export
+     * @interface IMonacoEditorAction
+     */
+    export interface IMonacoEditorAction
+    {
+        id: string;
+        label: string;
+        keybindings?: ( number | string )[];
+        contextMenuGroupId?: string;
+        contextMenuOrder?: number;
+        precondition?: string;
+
+        /**
+         * when false the action's context key is unset so its menu item and keybindings are disabled
+         */
+        enabled?: boolean | KnockoutObservable<boolean>;
+        run: ( editor: monaco.editor.ICommonCodeEditor ) => any;
+    }
+
+    /**
+     * The value passed to view model functions bound with 'meCompletions', 'meHover' and 'meSignatureHelp'
+     * 
+     * @export
+     * @interface IMonacoEditorProviderContext
+     */
+    export interface IMonacoEditorProviderContext
+    {
+        model: monaco.editor.IReadOnlyModel;
+        position: monaco.Position;
+
+        /**
+         * the word before the position
+         */
+        word: string;
+
+        /**
+         * the text of the line up to the position
+         */
+        lineText: string;
+    }
+
+    /**
+     * A diagnostic produced by the view model to be shown in the editor as a marker
+     * 
+     * @export
+     * @interface IMonacoEditorMarker
+     */
+    export interface IMonacoEditorMarker
+    {
+        startLine: number;
+        startColumn: number;
+        endLine: number;
+        endColumn: number;
+        message: string;
+
+        /**
+         * 'error', 'warning', 'info' or 'ignore' or a monaco.Severity value. defaults to 'error'
+         */
+        severity?: string | number;
+        source?: string;
+    }
+
+    /**
+     * Where the store keeps editor view states saved under their 'meStateKey'. values are JSON strings. 'keys' lists 
+     * the saved keys and is only needed for 'exportState' to include states saved in earlier sessions
+     * 
+     * @export
+     * @interface IMonacoEditorStateStorage
+     */
+    export interface IMonacoEditorStateStorage
+    {
+        get ( key: string ): string;
+        set ( key: string, value: string ): void;
+        keys?(): string[];
+    }
+
+    /**
+     * A decoration bound with 'meDecorations'. 'glyphClassName' is shown in the glyph margin, for example for 
+     * breakpoints, and 'isWholeLine' extends 'className' to the whole of each line in the range
+     * 
+     * @export
+     * @interface IMonacoEditorDecoration
+     */
+    export interface IMonacoEditorDecoration
+    {
+        range: monaco.IRange;
+        className?: string;
+        glyphClassName?: string;
+        inlineClassName?: string;
+        hoverMessage?: monaco.MarkedString | monaco.MarkedString[];
+        isWholeLine?: boolean;
+    }
+
+    /**
+     * A region of the document locked with 'meReadOnlyRanges'. the region is either a line/column range or the text 
+     * between the first occurrence of 'start' and the first occurrence of 'end' after it, both included. without 
+     * 'end' only the 'start' text is locked
+     * 
+     * @export
+     * @interface IMonacoEditorReadOnlyRange
+     */
+    export interface IMonacoEditorReadOnlyRange
+    {
+        startLine?: number;
+        startColumn?: number;
+        endLine?: number;
+        endColumn?: number;
+        start?: string;
+        end?: string;
+    }
+
+    /**
+     * A language registered with the store. 'monarch' and 'configuration' are optional so a language can be registered
+     * for its extensions alone
+     * 
+     * @export
+     * @interface IMonacoEditorLanguage
+     */
+    export interface IMonacoEditorLanguage
+    {
+        id: string;
+        extensions?: string[];
+        aliases?: string[];
+        mimetypes?: string[];
+        monarch?: monaco.languages.IMonarchLanguage;
+        configuration?: monaco.languages.LanguageConfiguration;
+    }
 
     export interface IMonacoEditorsStore
     {
+        /**
+         * the theme of every editor in the store. monaco themes are global, so writing a theme name here rethemes every 
+         * editor at once and wins over the 'theme' option of the bindings. empty until written
+         * 
+         * @type {KnockoutObservable<string>}
+         * @memberof IMonacoEditorsStore
+         */
+        theme: KnockoutObservable<string>;
 
         /**
-         * update's layout or size of all editors currently in the store.
+         * update's layout or size of all editors currently in the store. editors are laid out automatically when their
+         * DOM element changes size, so this is only needed when something else affects their layout.
          * 
          * @memberof IMonacoEditorsStore
          */
         resizeAll (): void;
 
         /**
-         * get a editor from the store by unique id
+         * get a editor from the store by unique id. when the id belongs to a diff editor the diff editor's modified 
+         * editor is returned
          * 
          * @param {string} id id of dom element representing a monaco-editor
          * @returns {monaco.editor.ICodeEditor} the editor with unique id matching id or null if no editor in store matches id
@@ -57,6 +411,35 @@ module my
          */
         get ( id: string ): monaco.editor.ICodeEditor;
 
+        /**
+         * get a diff editor from the store by unique id
+         * 
+         * @param {string} id id of dom element representing a monaco diff editor
+         * @returns {monaco.editor.IStandaloneDiffEditor} the diff editor with unique id matching id or undefined if no 
+         * diff editor in store matches id
+         * @memberof IMonacoEditorStore
+         */
+        getDiffEditor ( id: string ): monaco.editor.IStandaloneDiffEditor;
+
+        /**
+         * get the navigator used to move between the changes of a diff editor in the store
+         * 
+         * @param {string} id id of dom element representing a monaco diff editor
+         * @returns {monaco.editor.IDiffNavigator} the navigator of the diff editor with unique id matching id or 
+         * undefined if no diff editor in store matches id
+         * @memberof IMonacoEditorStore
+         */
+        getDiffNavigator ( id: string ): monaco.editor.IDiffNavigator;
+
+        /**
+         * list the text models created by the store that are still alive. bindings to the same observable, or with the 
+         * same 'meModelUri', share one model which is disposed once the last editor using it is gone
+         * 
+         * @returns {IMonacoEditorModelInfo[]} the live models and the ids of the editors using each
+         * @memberof IMonacoEditorStore
+         */
+        getModels (): IMonacoEditorModelInfo[];
+
         /**
          * create a editor instance from the DOM element element configured with all valid 
          * parsable options found in the koOptionsObject object literal and persist in the 
@@ -65,6 +448,13 @@ module my
          * @param {HTMLElement} element a DOM element to create the editor within
          * @param {*} koOptionsObject a object literal of monaco editor options. 
          * @param {() => any} koModelPropAccessor a knockout model accessor function
+         * @param {KnockoutAllBindingsAccessor} [allBindingsAccessor] a knockout accessor for the other bindings on the 
+         * element. used to bind the editor state companion bindings 'meCursor', 'meSelection', 'meSelectedText', 
+         * 'meLineCount' and 'meHasFocus', the marker bindings 'meMarkers' and 'meModelMarkers', the document 
+         * bindings 'meDocuments' and 'meActiveDocument', 'meActions', the provider bindings 'meCompletions', 'meHover' 
+         * and 'meSignatureHelp', 'meEditor' which receives the created editor, the loading state bindings 'meLoading' 
+         * and 'meLoadError', 'meModelUri' which names a model to share with other bindings and 'meLazy' which shows a 
+         * preview until the editor is needed
          * @memberof IMonacoEditorStore
          * @see https://microsoft.github.io/monaco-editor/api/interfaces/monaco.editor.ieditorconstructionoptions.html
          * @example To create new editor and persist
@@ -72,10 +462,10 @@ module my
          * // from within a binding handler function that has a value accessor available
          * let e = document.createElement("div");
          * let store  = new MonacoEditorStore();
-         * let o = store.parseOptions({
+         * let o = {
          *     language : 'javascript',
          *     theme: 'vs-dark'
-         * });
+         * };
          * 
          * store.create(e, o, valueAccessor);;
          * 
@@ -83,7 +473,29 @@ module my
          * let editor = store.get(e.id);
          * ```
          */
-        create ( element: HTMLElement, options: any, koModelPropAccessor: () => any ): void;
+        create ( element: HTMLElement, options: any, koModelPropAccessor: () => any, allBindingsAccessor?: KnockoutAllBindingsAccessor ): void;
+
+        /**
+         * create a diff editor instance from the DOM element element configured with all valid parsable options found 
+         * in the options object literal and persist in the IMonacoEditorStore. the accessor must return a object 
+         * literal with 'original' and 'modified' properties and may include a writable 'navigator' observable that 
+         * receives the diff navigator once the diff editor is created.
+         * 
+         * @param {HTMLElement} element a DOM element to create the diff editor within
+         * @param {*} options a object literal of monaco diff editor options
+         * @param {() => any} koDiffModelAccessor a knockout accessor function returning the diff binding object literal
+         * @param {KnockoutAllBindingsAccessor} [allBindingsAccessor] a knockout accessor for the other bindings on the 
+         * element. used to bind 'meLoading' and 'meLoadError'
+         * @memberof IMonacoEditorStore
+         * @see https://microsoft.github.io/monaco-editor/api/interfaces/monaco.editor.idiffeditorconstructionoptions.html
+         * @example To bind a diff editor
+         * ```html
+         * <div data-bind="koMonacoDiffEditor: { original: baselineText, modified: generatedText, navigator: diffNavigator },
+         *                 meOptions: { language: 'javascript', renderSideBySide: false, ignoreTrimWhitespace: true }">
+         * </div>
+         * ```
+         */
+        createDiff ( element: HTMLElement, options: any, koDiffModelAccessor: () => any, allBindingsAccessor?: KnockoutAllBindingsAccessor ): void;
 
         /**
          * *** Similiar to '`Store.Length > 0`' ***
@@ -94,15 +506,174 @@ module my
          */
         hasEditors (): boolean;
 
+        /**
+         * get a promise for a editor in the store. the promise resolves as soon as the editor with unique id is 
+         * created, or right away when it already exists. for a diff editor the modified editor is resolved. the 
+         * promise is rejected when monaco fails to load or the element is disposed before the editor is created, and 
+         * right away when that already happened or the element was disposed, until the id is bound again
+         * 
+         * @param {string} id id of dom element representing a monaco-editor
+         * @returns {Promise<monaco.editor.ICodeEditor>} a promise resolving with the editor
+         * @memberof IMonacoEditorStore
+         */
+        whenReady ( id: string ): Promise<monaco.editor.ICodeEditor>;
+
+        /**
+         * subscribe to the creation of editors and diff editors in the store
+         * 
+         * @param {( e: IMonacoEditorStoreEvent ) => void} callback called with the id and editor once a editor is created
+         * @returns {KnockoutSubscription} a subscription to dispose when no longer interested
+         * @memberof IMonacoEditorStore
+         */
+        onCreated ( callback: ( e: IMonacoEditorStoreEvent ) => void ): KnockoutSubscription;
+
+        /**
+         * subscribe to the disposal of editors and diff editors in the store
+         * 
+         * @param {( e: IMonacoEditorStoreEvent ) => void} callback called with the id and editor once a editor is disposed
+         * @returns {KnockoutSubscription} a subscription to dispose when no longer interested
+         * @memberof IMonacoEditorStore
+         */
+        onDisposed ( callback: ( e: IMonacoEditorStoreEvent ) => void ): KnockoutSubscription;
+
         /**
          * ** Update created bound editor when ko value changes **
-         * update the editor's current model value if value is not equal to koModelValue
+         * update the editor's current model value if value is not equal to koModelValue. the change is applied as the 
+         * smallest possible undoable edit so the cursor, selections, scroll position and undo history are preserved. 
+         * values sent before the editor is created are queued and the last one is used to create the editor
          * 
          * @param {string} id store unique identifier
          * @param {string} koModelValue a string value of code to update the editors model value with
          * @memberof IMonacoEditorStore
          */
         updateEditor ( id: string, koModelValue: string ): void;
+
+        /**
+         * ** Update created bound diff editor when ko values change **
+         * update the diff editor's original and modified model values when they are not equal to the given values
+         * 
+         * @param {string} id store unique identifier
+         * @param {string} koOriginalValue a string value of code to update the original model value with
+         * @param {string} koModifiedValue a string value of code to update the modified model value with
+         * @memberof IMonacoEditorStore
+         */
+        updateDiffEditor ( id: string, koOriginalValue: string, koModifiedValue: string ): void;
+
+        /**
+         * ** Update created bound editor when ko options change **
+         * apply a new set of options to the editor in place. only options that differ from the last applied options are
+         * pushed to the editor. 'language' is applied to the editor's model and 'theme' is applied globally since monaco
+         * themes are not per editor.
+         * 
+         * @param {string} id store unique identifier
+         * @param {*} options a object literal of monaco editor options
+         * @memberof IMonacoEditorStore
+         */
+        updateOptions ( id: string, options: any ): void;
+
+        /**
+         * set default options for every editor created from now on. the given options are merged into the current 
+         * defaults and options bound in 'meOptions' or taken from a preset win over them
+         * 
+         * @param {monaco.editor.IEditorConstructionOptions} defaults the options to use as defaults
+         * @memberof IMonacoEditorStore
+         */
+        configureDefaults ( defaults: monaco.editor.IEditorConstructionOptions ): void;
+
+        /**
+         * register a named set of options that bindings can refer to with 'meOptions: { preset: name }'. the options
+         * bound in 'meOptions' win over the preset's options
+         * 
+         * @param {string} name the name of the preset
+         * @param {monaco.editor.IEditorConstructionOptions} options the options of the preset
+         * @memberof IMonacoEditorStore
+         */
+        registerPreset ( name: string, options: monaco.editor.IEditorConstructionOptions ): void;
+
+        /**
+         * choose how monaco is loaded: with the AMD loader from a configurable path, from a monaco already on the page 
+         * or with a function resolving with monaco. affects editors created after the call. when monaco fails to load, 
+         * bindings degrade to a plain textarea bound to the same view model property
+         * 
+         * @param {IMonacoLoaderOptions} loader the loader strategy
+         * @memberof IMonacoEditorStore
+         * @example To load monaco bundled as ESM
+         * ```typescript
+         * ko.monacoEditors.configureLoader( { load: () => import( 'monaco-editor' ) } );
+         * ```
+         */
+        configureLoader ( loader: IMonacoLoaderOptions ): void;
+
+        /**
+         * define a custom theme that editors can use by name, in 'meOptions' or the store's theme. safe to call before
+         * monaco is loaded, the theme is defined once it is
+         * 
+         * @param {string} name the name of the theme
+         * @param {monaco.editor.IStandaloneThemeData} data the theme's base theme, rules and colors
+         * @memberof IMonacoEditorStore
+         * @example To define a theme
+         * ```typescript
+         * ko.monacoEditors.defineTheme( 'corporate', {
+         *     base: 'vs',
+         *     inherit: true,
+         *     rules: [ { token: 'keyword', foreground: '0b5394', fontStyle: 'bold' } ],
+         *     colors: { 'editor.background': '#fafafa' }
+         * } );
+         * ko.monacoEditors.theme( 'corporate' );
+         * ```
+         */
+        defineTheme ( name: string, data: monaco.editor.IStandaloneThemeData ): void;
+
+        /**
+         * register a language with its extensions and optionally a monarch tokenizer and a language configuration. 
+         * safe to call before monaco is loaded, the language is registered once it is
+         * 
+         * @param {IMonacoEditorLanguage} language the language to register
+         * @memberof IMonacoEditorStore
+         */
+        registerLanguage ( language: IMonacoEditorLanguage ): void;
+
+        /**
+         * mark the current content of a editor as clean, for example once it has been saved. the editor's 'meDirty' 
+         * binding becomes false until the content changes again
+         * 
+         * @param {string} id store unique identifier
+         * @memberof IMonacoEditorStore
+         */
+        markClean ( id: string ): void;
+
+        /**
+         * put the content of a editor back to what it was when last marked clean, or when it was created. the revert is
+         * a single edit that can be undone, and the bound view model property is updated with the clean content
+         * 
+         * @param {string} id store unique identifier
+         * @memberof IMonacoEditorStore
+         */
+        revert ( id: string ): void;
+
+        /**
+         * choose where view states of editors bound with 'meStateKey' are saved. defaults to localStorage
+         * 
+         * @param {IMonacoEditorStateStorage} storage the storage adapter
+         * @memberof IMonacoEditorStore
+         */
+        configureStateStorage ( storage: IMonacoEditorStateStorage ): void;
+
+        /**
+         * get every saved view state by 'meStateKey', for example to keep them with a user's profile
+         * 
+         * @returns {{ [ key: string ]: monaco.editor.ICodeEditorViewState }} the saved view states by key
+         * @memberof IMonacoEditorStore
+         */
+        exportState (): { [ key: string ]: monaco.editor.ICodeEditorViewState };
+
+        /**
+         * save view states by 'meStateKey', restoring them in the live editors bound to those keys
+         * 
+         * @param {{ [ key: string ]: monaco.editor.ICodeEditorViewState }} states the view states by key
+         * @memberof IMonacoEditorStore
+         */
+        importState ( states: { [ key: string ]: monaco.editor.ICodeEditorViewState } ): void;
     };
 
     /**
@@ -116,87 +687,107 @@ module my
     {
         /**
          * convert a object literal of options into a monaco editor compatible options object with default values for 
-         * options that are not specified.
+         * options that are not specified. a 'preset' key names a registered preset that is applied between the defaults
+         * and the other options. unknown options and options of the wrong type are reported as console warnings and 
+         * left out. the given object literal is not modified.
          * 
          * @private
          * @param {*} optionsObjectLiteral a json or object literal describing one or more monaco editor options
+         * @param {string} id the id of the editor the options are for, used in warnings
          * @returns {monaco.editor.IEditorConstructionOptions} a strongly typed object representing options for configuring 
          * monaco editor instances
          * @memberof MonacoEditorStore
          */
-        private parseOptions ( optionsObjectLiteral: any ): monaco.editor.IEditorConstructionOptions
+        private parseOptions ( optionsObjectLiteral: any, id: string ): monaco.editor.IEditorConstructionOptions
         {
+            let options = ko.utils.extend( {}, this._defaultOptions ) as monaco.editor.IEditorConstructionOptions;
+            let optionsLiteral = optionsObjectLiteral || {};
+            let preset = optionsLiteral.preset;
 
-            let options = optionsObjectLiteral as monaco.editor.IEditorConstructionOptions || {} as monaco.editor.IEditorConstructionOptions;
-
-            if ( !options.language )
-                options.language = 'javascript';
-
-            if ( !options.theme )
-                options.theme = 'vs-dark';
-
-            if ( !options.lineNumbers )
-                options.lineNumbers = 'on';
-
-            if ( !options.roundedSelection )
-                options.roundedSelection = true;
-
-            if ( !options.scrollBeyondLastLine )
-                options.scrollBeyondLastLine = true;
-
-            if ( !options.readOnly )
-                options.readOnly = false;
-
-            if ( !options.fontSize )
-                options.fontSize = 20;
-
-            if ( !options.autoIndent )
-                options.autoIndent = true;
+            if ( preset !== undefined )
+            {
+                if ( this._presets.hasOwnProperty( preset ) )
+                    ko.utils.extend( options, this._presets[ preset ] );
+                else
+                    console.warn( `unknown monaco editor options preset '${ preset }' on '${ id }'` );
+            }
 
-            if ( !options.emptySelectionClipboard )
-                options.emptySelectionClipboard = true;
+            ko.utils.extend( options, this.validateOptions( optionsLiteral, id ) );
 
-            if ( !options.folding )
-                options.folding = true;
+            if ( this.theme.peek() )
+                options.theme = this.theme.peek();
 
-            if ( !options.glyphMargin )
-                options.glyphMargin = true;
+            return options;
+        }
 
-            if ( !options.mouseWheelZoom )
-                options.mouseWheelZoom = true;
+        /**
+         * copy the known options of the correct type out of a object literal of options. options that are missing or 
+         * undefined are left out so that defaults apply to them
+         * 
+         * @private
+         * @param {*} optionsObjectLiteral a json or object literal describing one or more monaco editor options
+         * @param {string} id the id of the editor or the name of the preset the options are for, used in warnings
+         * @returns {monaco.editor.IEditorConstructionOptions} the valid options
+         * @memberof MonacoEditorStore
+         */
+        private validateOptions ( optionsObjectLiteral: any, id: string ): monaco.editor.IEditorConstructionOptions
+        {
+            let options: any = {};
 
-            if ( !options.parameterHints )
-                options.parameterHints = true;
+            for ( var key in optionsObjectLiteral )
+            {
+                let value = optionsObjectLiteral[ key ];
 
-            if ( !options.renderIndentGuides )
-                options.renderIndentGuides = true;
+                if ( !optionsObjectLiteral.hasOwnProperty( key ) || key === 'preset' || value === undefined )
+                    continue;
 
-            if ( !options.minimap )
-                options.minimap = { enabled: true, showSlider: "mouseover" };
+                if ( !editorOptionTypes.hasOwnProperty( key ) )
+                {
+                    console.warn( `unknown monaco editor option '${ key }' on '${ id }'` );
+                    continue;
+                }
 
+                if ( ko.utils.arrayIndexOf( editorOptionTypes[ key ], typeof value ) < 0 )
+                {
+                    console.warn( `monaco editor option '${ key }' on '${ id }' should be of type ${ editorOptionTypes[ key ].join( ' or ' ) } but is ${ typeof value }` );
+                    continue;
+                }
 
-            // for ( const key in optionsObjectLital ) 
-            // {
-            //     if ( my.EditorOptionsBase.hasOwnProperty( key ) ) 
-            //     {
-            //         ( editorOptions as any )[ key ] = optionsObjectLital[ key ]
-            //     }
-            // }
+                options[ key ] = value;
+            }
 
-            return options;
+            return options as monaco.editor.IEditorConstructionOptions;
         }
 
         /**
-         * seed to aid in creating unique id's for the store
+         * the options every editor starts from before its preset and binding options are applied
          * 
          * @private
-         * @type {number}
+         * @type {monaco.editor.IEditorConstructionOptions}
          * @memberof MonacoEditorStore
          */
-        private _nextStoreEntryId: number;
+        private _defaultOptions: monaco.editor.IEditorConstructionOptions;
 
         /**
-         * a indexable store for persisting editor instances by unique id
+         * named sets of options that bindings can refer to with 'preset'
+         * 
+         * @private
+         * @type {{ [ key: string ]: monaco.editor.IEditorConstructionOptions }}
+         * @memberof MonacoEditorStore
+         */
+        private _presets: { [ key: string ]: monaco.editor.IEditorConstructionOptions };
+
+        /**
+         * seed to aid in creating unique id's for the store
+         * 
+         * @private
+         * @type {number}
+         * @memberof MonacoEditorStore
+         */
+        private _nextStoreEntryId: number;
+
+        /**
+         * a indexable store for persisting editor instances by unique id
          * 
          * @private
          * @type {{ [ key: string ]: monaco.editor.ICodeEditor }} the editor store
@@ -205,180 +796,3345 @@ module my
         private _monacoEditorInstances: { [ key: string ]: monaco.editor.ICodeEditor };
 
         /**
-         * Create and initialize an instance of MonacoEditorStore.
+         * a indexable store for persisting diff editor instances by unique id
+         * 
+         * @private
+         * @type {{ [ key: string ]: monaco.editor.IStandaloneDiffEditor }} the diff editor store
+         * @memberof MonacoEditorStore
+         */
+        private _monacoDiffEditorInstances: { [ key: string ]: monaco.editor.IStandaloneDiffEditor };
+
+        /**
+         * the diff navigators of each diff editor by unique id
+         * 
+         * @private
+         * @type {{ [ key: string ]: monaco.editor.IDiffNavigator }}
+         * @memberof MonacoEditorStore
+         */
+        private _monacoDiffNavigators: { [ key: string ]: monaco.editor.IDiffNavigator };
+
+        /**
+         * values sent to editors that are still loading by unique id. only the last value is kept
+         * 
+         * @private
+         * @type {{ [ key: string ]: any }}
+         * @memberof MonacoEditorStore
+         */
+        private _pendingValues: { [ key: string ]: any };
+
+        /**
+         * callbacks waiting for a editor to be created by unique id
+         * 
+         * @private
+         * @type {{ [ key: string ]: { resolve: ( editor: monaco.editor.ICodeEditor ) => void, reject: ( error: any ) => void }[] }}
+         * @memberof MonacoEditorStore
+         */
+        private _readyCallbacks: { [ key: string ]: { resolve: ( editor: monaco.editor.ICodeEditor ) => void, reject: ( error: any ) => void }[] };
+
+        /**
+         * the reasons editors will not be created by unique id, until the id is bound again
+         * 
+         * @private
+         * @type {{ [ key: string ]: any }}
+         * @memberof MonacoEditorStore
+         */
+        private _readyErrors: { [ key: string ]: any };
+
+        /**
+         * callbacks to run when a editor is disposed by unique id
+         * 
+         * @private
+         * @type {{ [ key: string ]: (() => void)[] }}
+         * @memberof MonacoEditorStore
+         */
+        private _editorDisposeCallbacks: { [ key: string ]: ( () => void )[] };
+
+        /**
+         * the lazy editors waiting on their element to scroll into view, or out of it, by unique id
+         * 
+         * @private
+         * @type {{ [ key: string ]: { activate: () => void, deactivate: () => void } }}
+         * @memberof MonacoEditorStore
+         */
+        private _lazyElements: { [ key: string ]: { activate: () => void, deactivate: () => void } };
+
+        /**
+         * IntersectionObservers shared by every lazy editor. one creates editors as they come near the viewport and the 
+         * other disposes them once they are far from it
+         * 
+         * @private
+         * @type {{ create: any, dispose: any }}
+         * @memberof MonacoEditorStore
+         */
+        private _lazyObservers: { create: any, dispose: any };
+
+        /**
+         * the strategy used to load monaco
+         * 
+         * @private
+         * @type {IMonacoLoaderOptions}
+         * @memberof MonacoEditorStore
+         */
+        private _loader: IMonacoLoaderOptions;
+
+        /**
+         * resolves once monaco is loaded. null until the first editor is created
+         * 
+         * @private
+         * @type {Promise<void>}
+         * @memberof MonacoEditorStore
+         */
+        private _monacoLoading: Promise<void>;
+
+        /**
+         * true once monaco has been loaded
+         * 
+         * @private
+         * @type {boolean}
+         * @memberof MonacoEditorStore
+         */
+        private _monacoLoaded: boolean;
+
+        /**
+         * theme definitions and language registrations waiting on monaco to load
+         * 
+         * @private
+         * @type {(() => void)[]}
+         * @memberof MonacoEditorStore
+         */
+        private _pendingRegistrations: ( () => void )[];
+
+        /**
+         * the theme of every editor in the store. monaco themes are global, so writing a theme name here rethemes every 
+         * editor at once and wins over the 'theme' option of the bindings. empty until written
+         * 
+         * @type {KnockoutObservable<string>}
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        theme: KnockoutObservable<string>;
+
+        /**
+         * the DOM elements of editors whose size is tracked by unique id, along with the last size seen when polling
+         * 
+         * @private
+         * @type {{ [ key: string ]: { element: HTMLElement, width: number, height: number } }}
+         * @memberof MonacoEditorStore
+         */
+        private _sizedElements: { [ key: string ]: { element: HTMLElement, width: number, height: number } };
+
+        /**
+         * a ResizeObserver shared by every editor, when the browser has one
+         * 
+         * @private
+         * @type {*}
+         * @memberof MonacoEditorStore
+         */
+        private _resizeObserver: any;
+
+        /**
+         * the interval polling element sizes when the browser has no ResizeObserver
+         * 
+         * @private
+         * @type {number}
+         * @memberof MonacoEditorStore
+         */
+        private _sizePollHandle: number;
+
+        /**
+         * the ids of editors waiting for the next animation frame to be laid out
+         * 
+         * @private
+         * @type {{ [ key: string ]: boolean }}
+         * @memberof MonacoEditorStore
+         */
+        private _pendingLayouts: { [ key: string ]: boolean };
+
+        /**
+         * the animation frame that lays out the pending editors
+         * 
+         * @private
+         * @type {number}
+         * @memberof MonacoEditorStore
+         */
+        private _layoutFrameHandle: number;
+
+        /**
+         * notifies the 'created' and 'disposed' events of the store
+         * 
+         * @private
+         * @type {KnockoutSubscribable<IMonacoEditorStoreEvent>}
+         * @memberof MonacoEditorStore
+         */
+        private _events: KnockoutSubscribable<IMonacoEditorStoreEvent>;
+
+        /**
+         * the last value each editor pushed to its knockout view model property by unique id. lets value updates that 
+         * originated from the editor itself be skipped without comparing against the whole model text
+         * 
+         * @private
+         * @type {{ [ key: string ]: string }}
+         * @memberof MonacoEditorStore
+         */
+        private _lastSyncedValues: { [ key: string ]: string };
+
+        /**
+         * the clean state of each model a editor has shown by unique id, along with a function writing the editor's 
+         * 'meDirty' binding. a model is dirty when its alternative version id differs from the clean one, so undoing 
+         * back to the clean content makes it clean again
+         * 
+         * @private
+         * @type {{ [ key: string ]: { records: { model: monaco.editor.IModel, versionId: number, value: string }[], refresh: () => void } }}
+         * @memberof MonacoEditorStore
+         */
+        private _cleanStates: { [ key: string ]: { records: { model: monaco.editor.IModel, versionId: number, value: string }[], refresh: () => void } };
+
+        /**
+         * true while a value from the view model is being applied to a model. lets edits to read only ranges through the
+         * bound view model property through
+         * 
+         * @private
+         * @type {boolean}
+         * @memberof MonacoEditorStore
+         */
+        private _applyingViewModelEdit: boolean;
+
+        /**
+         * the models whose edits are guarded, along with their guards and the listener removing them when the model 
+         * is disposed
+         * 
+         * @private
+         * @type {{ model: monaco.editor.IModel, guards: ((operations: monaco.editor.IIdentifiedSingleEditOperation[]) => boolean)[], disposeListener: monaco.IDisposable }[]}
+         * @memberof MonacoEditorStore
+         */
+        private _editGuards: { model: monaco.editor.IModel, guards: ( ( operations: monaco.editor.IIdentifiedSingleEditOperation[] ) => boolean )[], disposeListener: monaco.IDisposable }[];
+
+        /**
+         * where view states are saved, localStorage unless configured otherwise
+         * 
+         * @private
+         * @type {IMonacoEditorStateStorage}
+         * @memberof MonacoEditorStore
+         */
+        private _stateStorage: IMonacoEditorStateStorage;
+
+        /**
+         * the view states read from or written to the storage this session by 'meStateKey'
+         * 
+         * @private
+         * @type {{ [ key: string ]: monaco.editor.ICodeEditorViewState }}
+         * @memberof MonacoEditorStore
+         */
+        private _viewStates: { [ key: string ]: monaco.editor.ICodeEditorViewState };
+
+        /**
+         * the 'meStateKey' of each live editor by unique id
+         * 
+         * @private
+         * @type {{ [ key: string ]: string }}
+         * @memberof MonacoEditorStore
+         */
+        private _stateKeys: { [ key: string ]: string };
+
+        /**
+         * the text models created for editors and diff editors. a model is shared by every binding to the same 
+         * observable or with the same 'meModelUri' and is disposed when its last editor is
+         * 
+         * @private
+         * @type {{ uri: string, source: any, model: monaco.editor.IModel, editorIds: string[] }[]}
+         * @memberof MonacoEditorStore
+         */
+        private _sharedModels: { uri: string, source: any, model: monaco.editor.IModel, editorIds: string[] }[];
+
+        /**
+         * the last parsed options applied to each editor by unique id. used to determine what changed when the 
+         * options binding is re-evaluated
+         * 
+         * @private
+         * @type {{ [ key: string ]: monaco.editor.IEditorConstructionOptions }}
+         * @memberof MonacoEditorStore
+         */
+        private _monacoEditorOptions: { [ key: string ]: monaco.editor.IEditorConstructionOptions };
+
+        /**
+         * Create and initialize an instance of MonacoEditorStore.
+         * @memberof MonacoEditorStore
+         */
+        constructor ()
+        {
+            this._monacoEditorInstances = {};
+            this._monacoDiffEditorInstances = {};
+            this._monacoDiffNavigators = {};
+            this._monacoEditorOptions = {};
+            this._lastSyncedValues = {};
+            this._cleanStates = {};
+            this._applyingViewModelEdit = false;
+            this._editGuards = [];
+            this._viewStates = {};
+            this._stateKeys = {};
+            this._stateStorage = {
+                get: ( key ) => window.localStorage.getItem( viewStateKeyPrefix + key ),
+                set: ( key, value ) => window.localStorage.setItem( viewStateKeyPrefix + key, value ),
+                keys: () =>
+                {
+                    let keys: string[] = [];
+
+                    for ( var index = 0; index < window.localStorage.length; index++ )
+                    {
+                        let storageKey = window.localStorage.key( index );
+
+                        if ( storageKey.indexOf( viewStateKeyPrefix ) === 0 )
+                            keys.push( storageKey.substring( viewStateKeyPrefix.length ) );
+                    }
+
+                    return keys;
+                }
+            };
+            this._sharedModels = [];
+            this._pendingValues = {};
+            this._readyCallbacks = {};
+            this._readyErrors = {};
+            this._editorDisposeCallbacks = {};
+            this._lazyElements = {};
+            this._lazyObservers = null;
+            this._loader = { type: 'amd' };
+            this._monacoLoading = null;
+            this._monacoLoaded = false;
+            this._pendingRegistrations = [];
+            this._events = new ko.subscribable<IMonacoEditorStoreEvent>();
+            this._sizedElements = {};
+            this._resizeObserver = null;
+            this._sizePollHandle = null;
+            this._pendingLayouts = {};
+            this._layoutFrameHandle = null;
+            this._nextStoreEntryId = 0;
+            this._presets = {};
+            this._defaultOptions = {
+                language: 'javascript',
+                theme: 'vs-dark',
+                lineNumbers: 'on',
+                roundedSelection: true,
+                scrollBeyondLastLine: true,
+                readOnly: false,
+                fontSize: 20,
+                autoIndent: true,
+                emptySelectionClipboard: true,
+                folding: true,
+                glyphMargin: true,
+                mouseWheelZoom: true,
+                parameterHints: true,
+                renderIndentGuides: true,
+                minimap: { enabled: true, showSlider: 'mouseover' }
+            };
+
+            this.theme = ko.observable<string>();
+            this.theme.subscribe( ( theme ) =>
+            {
+                if ( !theme )
+                    return;
+
+                // keep the options of every editor in line so later option updates do not switch back
+                for ( var id in this._monacoEditorOptions )
+                    if ( this._monacoEditorOptions.hasOwnProperty( id ) )
+                        this._monacoEditorOptions[ id ].theme = theme;
+
+                this.runWhenMonacoLoaded( () => monaco.editor.setTheme( theme ) );
+            } );
+        }
+
+        private getNextId (): string
+        {
+            this._nextStoreEntryId += 1;
+            //return `knockout-monaco-${ this._monacoEditorIdSeed }`
+            return `${ editorDomElementIdPrefix }${ this._nextStoreEntryId }`
+        }
+
+        private disposeEditor ( id: string ): void
+        {
+            let editor = this._monacoEditorInstances[ id ];
+            let callbacks = this._editorDisposeCallbacks[ id ] || [];
+
+            if ( !editor )
+                return;
+
+            delete this._editorDisposeCallbacks[ id ];
+
+            this.unobserveSize( id );
+            editor.dispose();
+            callbacks.forEach( ( callback ) => callback() );
+            this.releaseModels( id );
+            delete this._monacoEditorInstances[ id ];
+            delete this._monacoEditorOptions[ id ];
+            delete this._lastSyncedValues[ id ];
+            delete this._cleanStates[ id ];
+
+            this._events.notifySubscribers( { id: id, editor: editor }, 'disposed' );
+        }
+
+        /**
+         * register a callback to run when the editor or diff editor with unique id is disposed, either because its DOM 
+         * element is removed or because a lazy editor goes back to its preview
+         * 
+         * @private
+         * @param {string} id unique id of the editor
+         * @param {() => void} callback the callback to run after the editor is disposed
+         * @memberof MonacoEditorStore
+         */
+        private addEditorDisposeCallback ( id: string, callback: () => void ): void
+        {
+            ( this._editorDisposeCallbacks[ id ] = this._editorDisposeCallbacks[ id ] || [] ).push( callback );
+        }
+
+        /**
+         * persist a created editor or diff editor's id as ready. resolves anyone waiting on the editor and notifies 
+         * the 'created' event
+         * 
+         * @private
+         * @param {string} id unique id of the created editor
+         * @memberof MonacoEditorStore
+         */
+        private notifyCreated ( id: string ): void
+        {
+            let editor = this.get( id );
+            let callbacks = this._readyCallbacks[ id ] || [];
+
+            delete this._readyCallbacks[ id ];
+            callbacks.forEach( ( callback ) => callback.resolve( editor ) );
+
+            this._events.notifySubscribers( { id: id, editor: editor }, 'created' );
+        }
+
+        /**
+         * load monaco with the configured loader. monaco is only loaded once, every call after the first returns the 
+         * same promise
+         * 
+         * @private
+         * @returns {Promise<void>} a promise resolving once the global monaco namespace is available
+         * @memberof MonacoEditorStore
+         */
+        private loadMonaco (): Promise<void>
+        {
+            if ( this._monacoLoading )
+                return this._monacoLoading;
+
+            let loader = this._loader;
+            let loading: Promise<any>;
+
+            // 'load' decides only when the loader type is not given, so a explicit type is never overridden
+            if ( loader.type === 'custom' || ( !loader.type && typeof loader.load === 'function' ) )
+                loading = Promise.resolve().then( () => loader.load() );
+            else if ( loader.type === 'global' )
+                loading = ( window as any ).monaco ?
+                    Promise.resolve( ( window as any ).monaco ) :
+                    Promise.reject( new Error( 'monaco cannot be found on the window' ) );
+            else
+                loading = new Promise( ( resolve, reject ) =>
+                {
+                    if ( typeof require !== 'function' )
+                        return reject( new Error( 'an AMD loader cannot be found, include monaco\'s loader.js before creating editors' ) );
+
+                    if ( loader.vsPath )
+                        require.config( { paths: { vs: loader.vsPath } } );
+
+                    require( [ loader.path || defaultAmdModule ], resolve, reject );
+                } );
+
+            return this._monacoLoading = loading.then( ( monacoNamespace: any ) =>
+            {
+                // bundled monaco does not always set the global the rest of the store relies on
+                if ( !( window as any ).monaco && monacoNamespace )
+                    ( window as any ).monaco = monacoNamespace;
+
+                if ( !( window as any ).monaco )
+                    throw new Error( 'the monaco loader did not provide monaco' );
+
+                let registrations = this._pendingRegistrations;
+
+                this._monacoLoaded = true;
+                this._pendingRegistrations = [];
+                registrations.forEach( ( register ) => register() );
+            } );
+        }
+
+        /**
+         * run a theme definition or language registration now when monaco is loaded, or queue it until monaco loads. 
+         * queued registrations run before any editor is created
+         * 
+         * @private
+         * @param {() => void} register the registration to run
+         * @memberof MonacoEditorStore
+         */
+        private runWhenMonacoLoaded ( register: () => void ): void
+        {
+            if ( this._monacoLoaded )
+                register();
+            else
+                this._pendingRegistrations.push( register );
+        }
+
+        /**
+         * run onLoaded once monaco is loaded, unless the element is disposed first. keeps the element's 'meLoading' and 
+         * 'meLoadError' bindings up to date and, when monaco fails to load, degrades the element to a plain textarea.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor will be created within
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @param {() => any} koFallbackValueAccessor a accessor for the view model property the fallback textarea binds to
+         * @param {() => void} onLoaded creates the editor
+         * @memberof MonacoEditorStore
+         */
+        private whenMonacoLoaded ( element: HTMLElement, allBindingsAccessor: KnockoutAllBindingsAccessor, koFallbackValueAccessor: () => any, onLoaded: () => void ): void
+        {
+            let stopTrackingElement = this.trackLoadingElement( element );
+            let koLoading = allBindingsAccessor ? allBindingsAccessor.get( 'meLoading' ) : undefined;
+            let koLoadError = allBindingsAccessor ? allBindingsAccessor.get( 'meLoadError' ) : undefined;
+
+            this.writeObservable( koLoading, true );
+            this.writeObservable( koLoadError, null );
+
+            this.loadMonaco().then( () =>
+            {
+                if ( stopTrackingElement() )
+                    return;
+
+                this.writeObservable( koLoading, false );
+                onLoaded();
+            }, ( error: any ) =>
+            {
+                if ( stopTrackingElement() )
+                    return;
+
+                console.error( `monaco failed to load for '${ element.id }', falling back to a textarea`, error );
+
+                let readOnly = !!this._monacoEditorOptions[ element.id ].readOnly;
+
+                delete this._monacoEditorOptions[ element.id ];
+                delete this._pendingValues[ element.id ];
+                this.rejectReady( element.id, error );
+
+                this.createFallbackEditor( element, koFallbackValueAccessor, readOnly );
+
+                this.writeObservable( koLoading, false );
+                this.writeObservable( koLoadError, error );
+            } );
+        }
+
+        /**
+         * create a plain textarea within the element that is synced two-way with a view model property. used when 
+         * monaco cannot be loaded
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element to create the textarea within
+         * @param {() => any} koValueAccessor a accessor for the view model property to bind
+         * @param {boolean} readOnly true if the textarea should not be editable
+         * @memberof MonacoEditorStore
+         */
+        private createFallbackEditor ( element: HTMLElement, koValueAccessor: () => any, readOnly: boolean ): void
+        {
+            let textarea = document.createElement( 'textarea' );
+            let koValue = koValueAccessor();
+            let subscription: KnockoutSubscription;
+
+            textarea.className = 'me-fallback';
+            textarea.readOnly = readOnly;
+            textarea.style.width = '100%';
+            textarea.style.height = '100%';
+            textarea.style.boxSizing = 'border-box';
+            textarea.value = ko.utils.peekObservable( koValue ) || '';
+
+            ko.utils.registerEventHandler( textarea, 'input', () => this.writeObservable( koValueAccessor(), textarea.value ) );
+
+            if ( ko.isSubscribable( koValue ) )
+                subscription = koValue.subscribe( ( value: string ) =>
+                {
+                    if ( textarea.value !== ( value || '' ) )
+                        textarea.value = value || '';
+                } );
+
+            element.appendChild( textarea );
+
+            ko.utils.domNodeDisposal.addDisposeCallback( element, () =>
+            {
+                if ( subscription )
+                    subscription.dispose();
+            } );
+        }
+
+        /**
+         * lay out the editor or diff editor with unique id on the next animation frame. layouts requested in the same 
+         * frame are coalesced into one
+         * 
+         * @private
+         * @param {string} id unique id of the editor to lay out
+         * @memberof MonacoEditorStore
+         */
+        private scheduleLayout ( id: string ): void
+        {
+            this._pendingLayouts[ id ] = true;
+
+            if ( this._layoutFrameHandle !== null )
+                return;
+
+            this._layoutFrameHandle = window.requestAnimationFrame( () =>
+            {
+                let ids = this._pendingLayouts;
+
+                this._layoutFrameHandle = null;
+                this._pendingLayouts = {};
+
+                for ( var pendingId in ids )
+                {
+                    let sized = this._sizedElements[ pendingId ];
+                    let editor: monaco.editor.IEditor = this._monacoEditorInstances[ pendingId ] || this._monacoDiffEditorInstances[ pendingId ];
+
+                    // a hidden editor keeps its last layout and is laid out again once it becomes visible
+                    if ( !editor || !sized || ( sized.element.offsetWidth === 0 && sized.element.offsetHeight === 0 ) )
+                        continue;
+
+                    editor.layout();
+                }
+            } );
+        }
+
+        /**
+         * start tracking the size of a editor's DOM element so the editor is laid out whenever the element changes size,
+         * including when a hidden element becomes visible. uses ResizeObserver when available and otherwise polls the 
+         * element's size and listens to the window resizing.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element of a editor in the store
+         * @memberof MonacoEditorStore
+         */
+        private observeSize ( element: HTMLElement ): void
+        {
+            let ResizeObserver = ( window as any ).ResizeObserver;
+
+            this._sizedElements[ element.id ] = {
+                element: element,
+                width: element.offsetWidth,
+                height: element.offsetHeight
+            };
+
+            if ( ResizeObserver )
+            {
+                if ( !this._resizeObserver )
+                    this._resizeObserver = new ResizeObserver( ( entries: any[] ) =>
+                    {
+                        entries.forEach( ( entry ) => this.scheduleLayout( ( entry.target as HTMLElement ).id ) );
+                    } );
+
+                this._resizeObserver.observe( element );
+                return;
+            }
+
+            if ( this._sizePollHandle !== null )
+                return;
+
+            window.addEventListener( 'resize', this.scheduleLayoutAll );
+
+            this._sizePollHandle = window.setInterval( () =>
+            {
+                for ( var id in this._sizedElements )
+                {
+                    let sized = this._sizedElements[ id ];
+
+                    if ( sized.element.offsetWidth === sized.width && sized.element.offsetHeight === sized.height )
+                        continue;
+
+                    sized.width = sized.element.offsetWidth;
+                    sized.height = sized.element.offsetHeight;
+                    this.scheduleLayout( id );
+                }
+            }, sizePollInterval );
+        }
+
+        /**
+         * stop tracking the size of a editor's DOM element
+         * 
+         * @private
+         * @param {string} id unique id of the editor
+         * @memberof MonacoEditorStore
+         */
+        private unobserveSize ( id: string ): void
+        {
+            let sized = this._sizedElements[ id ];
+
+            if ( !sized )
+                return;
+
+            delete this._sizedElements[ id ];
+            delete this._pendingLayouts[ id ];
+
+            if ( this._resizeObserver )
+                this._resizeObserver.unobserve( sized.element );
+
+            // stop polling once the last editor is gone
+            if ( this._sizePollHandle !== null && Object.keys( this._sizedElements ).length === 0 )
+            {
+                window.clearInterval( this._sizePollHandle );
+                window.removeEventListener( 'resize', this.scheduleLayoutAll );
+                this._sizePollHandle = null;
+            }
+        }
+
+        /**
+         * lay out every editor with a tracked size on the next animation frame
+         * 
+         * @private
+         * @memberof MonacoEditorStore
+         */
+        private scheduleLayoutAll = (): void =>
+        {
+            for ( var id in this._sizedElements )
+                this.scheduleLayout( id );
+        };
+
+        /**
+         * reject the promises returned by 'whenReady' for a editor that will not be created, and those returned by 
+         * later calls until the id is bound again
+         * 
+         * @private
+         * @param {string} id unique id of the editor
+         * @param {*} error the reason the editor will not be created
+         * @memberof MonacoEditorStore
+         */
+        private rejectReady ( id: string, error: any ): void
+        {
+            let callbacks = this._readyCallbacks[ id ] || [];
+
+            this._readyErrors[ id ] = error;
+            delete this._readyCallbacks[ id ];
+            callbacks.forEach( ( callback ) => callback.reject( error ) );
+        }
+
+        /**
+         * track the disposal of a element whose editor is still loading so the editor is not created for a element 
+         * that is no longer in the DOM
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor will be created within
+         * @returns {() => boolean} a function that stops tracking the element and returns true if it was disposed
+         * @memberof MonacoEditorStore
+         */
+        private trackLoadingElement ( element: HTMLElement ): () => boolean
+        {
+            let isDisposed = false;
+            let onDisposed = () =>
+            {
+                isDisposed = true;
+                delete this._monacoEditorOptions[ element.id ];
+                delete this._pendingValues[ element.id ];
+                this.rejectReady( element.id, new Error( `'${ element.id }' was disposed before its editor was ready` ) );
+            };
+
+            ko.utils.domNodeDisposal.addDisposeCallback( element, onDisposed );
+
+            return () =>
+            {
+                ko.utils.domNodeDisposal.removeDisposeCallback( element, onDisposed );
+                return isDisposed;
+            };
+        }
+
+        /**
+         * replace the value of a model with newValue using small edits. the lines that changed are found with a 
+         * line diff, each changed block of lines is trimmed down to the characters that changed, and all of the 
+         * edits are pushed onto the model's undo stack together as one undo stop. editors viewing the model keep 
+         * their cursors, selections and scroll position.
+         * 
+         * @private
+         * @param {monaco.editor.IModel} model the model to edit
+         * @param {string} newValue the value the model should have after the edit
+         * @param {monaco.Selection[]} beforeCursorState the selections to restore when the edit is undone
+         * @memberof MonacoEditorStore
+         */
+        private applyMinimalEdit ( model: monaco.editor.IModel, newValue: string, beforeCursorState: monaco.Selection[] ): void
+        {
+            let eol = model.getEOL();
+
+            // models always use their own end of line sequence
+            newValue = ( newValue || '' ).replace( /\r\n|\r|\n/g, eol );
+
+            let oldValue = model.getValue();
+
+            // don't update if the values are the same
+            if ( oldValue === newValue )
+                return;
+
+            // every line ends with an end of line sequence here, so whole lines can be compared and sliced alike
+            let oldText = oldValue + eol;
+            let newText = newValue + eol;
+            let oldLines = oldValue.split( eol );
+            let newLines = newValue.split( eol );
+            let oldOffsets = this.getLineOffsets( oldLines, eol.length );
+            let newOffsets = this.getLineOffsets( newLines, eol.length );
+            let editOperations: monaco.editor.IIdentifiedSingleEditOperation[] = [];
+
+            this.diffLines( oldLines, newLines ).forEach( ( hunk ) =>
+            {
+                let oldStart = oldOffsets[ hunk.oldStart ];
+                let oldEnd = oldOffsets[ hunk.oldEnd ];
+                let newStart = newOffsets[ hunk.newStart ];
+                let newEnd = newOffsets[ hunk.newEnd ];
+
+                // trim the characters the changed lines have in common
+                while ( oldStart < oldEnd && newStart < newEnd && oldText.charCodeAt( oldStart ) === newText.charCodeAt( newStart ) )
+                {
+                    oldStart++;
+                    newStart++;
+                }
+
+                while ( oldStart < oldEnd && newStart < newEnd && oldText.charCodeAt( oldEnd - 1 ) === newText.charCodeAt( newEnd - 1 ) )
+                {
+                    oldEnd--;
+                    newEnd--;
+                }
+
+                // lines added or removed at the end of the text include the added end of line sequence, so take the 
+                // one before them instead
+                if ( oldEnd > oldValue.length )
+                {
+                    oldStart -= eol.length;
+                    oldEnd -= eol.length;
+                    newStart -= eol.length;
+                    newEnd -= eol.length;
+                }
+
+                let start = model.getPositionAt( oldStart );
+                let end = model.getPositionAt( oldEnd );
+
+                editOperations.push( {
+                    identifier: { major: 1, minor: editOperations.length },
+                    range: new monaco.Range( start.lineNumber, start.column, end.lineNumber, end.column ),
+                    text: newText.substring( newStart, newEnd ),
+                    forceMoveMarkers: false
+                } );
+            } );
+
+            this._applyingViewModelEdit = true;
+
+            try
+            {
+                model.pushStackElement();
+                model.pushEditOperations( beforeCursorState, editOperations, () => null );
+                model.pushStackElement();
+            }
+            finally
+            {
+                this._applyingViewModelEdit = false;
+            }
+        }
+
+        /**
+         * get the offset each line starts at, plus the offset after the last line, for lines that each end with an 
+         * end of line sequence
+         * 
+         * @private
+         * @param {string[]} lines the lines of a text
+         * @param {number} eolLength the length of the end of line sequence
+         * @returns {number[]} the offsets
+         * @memberof MonacoEditorStore
+         */
+        private getLineOffsets ( lines: string[], eolLength: number ): number[]
+        {
+            let offsets = [ 0 ];
+
+            lines.forEach( ( line, index ) => offsets.push( offsets[ index ] + line.length + eolLength ) );
+
+            return offsets;
+        }
+
+        /**
+         * find the blocks of lines that differ between two texts, using the longest common subsequence of their 
+         * lines. lines at the start and end the texts share are skipped first, and when what is left is too large 
+         * to compare line by line it is returned as a single block
+         * 
+         * @private
+         * @param {string[]} oldLines the lines of the old text
+         * @param {string[]} newLines the lines of the new text
+         * @returns {{ oldStart: number, oldEnd: number, newStart: number, newEnd: number }[]} the changed blocks, in 
+         * order, as line index ranges into both texts
+         * @memberof MonacoEditorStore
+         */
+        private diffLines ( oldLines: string[], newLines: string[] ): { oldStart: number, oldEnd: number, newStart: number, newEnd: number }[]
+        {
+            let start = 0;
+            let oldEnd = oldLines.length;
+            let newEnd = newLines.length;
+
+            while ( start < oldEnd && start < newEnd && oldLines[ start ] === newLines[ start ] )
+                start++;
+
+            while ( oldEnd > start && newEnd > start && oldLines[ oldEnd - 1 ] === newLines[ newEnd - 1 ] )
+            {
+                oldEnd--;
+                newEnd--;
+            }
+
+            let oldCount = oldEnd - start;
+            let newCount = newEnd - start;
+
+            if ( oldCount === 0 || newCount === 0 || oldCount * newCount > maxLineDiffSize )
+                return [ { oldStart: start, oldEnd: oldEnd, newStart: start, newEnd: newEnd } ];
+
+            // lengths[ i ][ j ] is the length of the longest common subsequence of the lines after i and j
+            let lengths: number[][] = [];
+
+            for ( let i = oldCount; i >= 0; i-- )
+            {
+                lengths[ i ] = [];
+
+                for ( let j = newCount; j >= 0; j-- )
+                {
+                    if ( i === oldCount || j === newCount )
+                        lengths[ i ][ j ] = 0;
+                    else if ( oldLines[ start + i ] === newLines[ start + j ] )
+                        lengths[ i ][ j ] = lengths[ i + 1 ][ j + 1 ] + 1;
+                    else
+                        lengths[ i ][ j ] = Math.max( lengths[ i + 1 ][ j ], lengths[ i ][ j + 1 ] );
+                }
+            }
+
+            let hunks: { oldStart: number, oldEnd: number, newStart: number, newEnd: number }[] = [];
+            let hunk: { oldStart: number, oldEnd: number, newStart: number, newEnd: number } = null;
+            let i = 0;
+            let j = 0;
+
+            while ( i < oldCount || j < newCount )
+            {
+                if ( i < oldCount && j < newCount && oldLines[ start + i ] === newLines[ start + j ] )
+                {
+                    hunk = null;
+                    i++;
+                    j++;
+                    continue;
+                }
+
+                if ( !hunk )
+                {
+                    hunk = { oldStart: start + i, oldEnd: start + i, newStart: start + j, newEnd: start + j };
+                    hunks.push( hunk );
+                }
+
+                if ( j === newCount || ( i < oldCount && lengths[ i + 1 ][ j ] >= lengths[ i ][ j + 1 ] ) )
+                    hunk.oldEnd = start + ++i;
+                else
+                    hunk.newEnd = start + ++j;
+            }
+
+            return hunks;
+        }
+
+        /**
+         * write a value to a knockout view model property if the property is a writable observable
+         * 
+         * @private
+         * @param {*} koProp a knockout view model property
+         * @param {*} value the value to write
+         * @memberof MonacoEditorStore
+         */
+        private writeObservable ( koProp: any, value: any ): void
+        {
+            if ( ko.isWriteableObservable( koProp ) )
+                koProp( value );
+        }
+
+        /**
+         * read a saved view state, from this session's states or from the storage
+         * 
+         * @private
+         * @param {string} key the 'meStateKey' the state is saved under
+         * @returns {monaco.editor.ICodeEditorViewState} the view state or null when none is saved
+         * @memberof MonacoEditorStore
+         */
+        private loadViewState ( key: string ): monaco.editor.ICodeEditorViewState
+        {
+            if ( !this._viewStates.hasOwnProperty( key ) )
+            {
+                try
+                {
+                    let value = this._stateStorage.get( key );
+
+                    this._viewStates[ key ] = value ? JSON.parse( value ) : null;
+                }
+                catch ( error )
+                {
+                    console.warn( `the view state '${ key }' cannot be read`, error );
+                    this._viewStates[ key ] = null;
+                }
+            }
+
+            return this._viewStates[ key ];
+        }
+
+        /**
+         * save a view state for this session and to the storage
+         * 
+         * @private
+         * @param {string} key the 'meStateKey' to save the state under
+         * @param {monaco.editor.ICodeEditorViewState} viewState the view state
+         * @memberof MonacoEditorStore
+         */
+        private saveViewState ( key: string, viewState: monaco.editor.ICodeEditorViewState ): void
+        {
+            this._viewStates[ key ] = viewState;
+
+            try
+            {
+                this._stateStorage.set( key, JSON.stringify( viewState ) );
+            }
+            catch ( error )
+            {
+                console.warn( `the view state '${ key }' cannot be saved`, error );
+            }
+        }
+
+        /**
+         * restore the view state saved under the 'meStateKey' binding found on the element and keep saving the 
+         * editor's view state there: when the editor loses focus, shortly after the cursor, selection, scroll 
+         * position or folding change, and when the editor is disposed
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindViewState ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let key: string = ko.utils.unwrapObservable( allBindingsAccessor.get( 'meStateKey' ) );
+            let viewState = key ? this.loadViewState( key ) : null;
+            let saveHandle: number = null;
+
+            if ( !key )
+                return;
+
+            if ( viewState )
+                editor.restoreViewState( viewState );
+
+            viewState = editor.saveViewState();
+            this._stateKeys[ element.id ] = key;
+
+            let save = () =>
+            {
+                window.clearTimeout( saveHandle );
+                saveHandle = null;
+                this.saveViewState( key, viewState );
+            };
+
+            // the latest state is kept as it changes since the editor cannot give it once it is disposed
+            let scheduleSave = () =>
+            {
+                viewState = editor.saveViewState();
+                window.clearTimeout( saveHandle );
+                saveHandle = window.setTimeout( save, viewStateSaveDelay );
+            };
+
+            editor.onDidChangeCursorSelection( scheduleSave );
+            editor.onDidScrollChange( scheduleSave );
+            editor.onDidChangeModelDecorations( scheduleSave );
+            editor.onDidBlurEditor( () =>
+            {
+                viewState = editor.saveViewState();
+                save();
+            } );
+
+            this.addEditorDisposeCallback( element.id, () =>
+            {
+                delete this._stateKeys[ element.id ];
+
+                if ( saveHandle !== null )
+                    save();
+            } );
+        }
+
+        /**
+         * bind the cursor position, selection, selected text, line count and focus of a editor to the companion 
+         * bindings found on the element. the editor writes to each bound observable as its state changes and writing 
+         * to 'meCursor', 'meSelection' or 'meHasFocus' moves the cursor, selection or focus in the editor.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindEditorState ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koCursor = allBindingsAccessor.get( 'meCursor' );
+            let koSelection = allBindingsAccessor.get( 'meSelection' );
+            let koSelectedText = allBindingsAccessor.get( 'meSelectedText' );
+            let koLineCount = allBindingsAccessor.get( 'meLineCount' );
+            let koHasFocus = allBindingsAccessor.get( 'meHasFocus' );
+            let subscriptions: KnockoutSubscription[] = [];
+
+            let writeSelectedText = () =>
+            {
+                this.writeObservable( koSelectedText, editor.getModel().getValueInRange( editor.getSelection() ) );
+            };
+
+            let writeModelState = () =>
+            {
+                this.writeObservable( koCursor, editor.getPosition() );
+                this.writeObservable( koSelection, editor.getSelection() );
+                this.writeObservable( koLineCount, editor.getModel().getLineCount() );
+                writeSelectedText();
+            };
+
+            // a starting cursor or selection in the view model wins over the editor's starting state
+            if ( ko.isObservable( koCursor ) && koCursor.peek() )
+                editor.setPosition( koCursor.peek() );
+
+            if ( ko.isObservable( koSelection ) && koSelection.peek() )
+                editor.setSelection( koSelection.peek() );
+
+            // editor to view model
+            editor.onDidChangeCursorPosition( ( e ) =>
+            {
+                this.writeObservable( koCursor, e.position );
+            } );
+
+            editor.onDidChangeCursorSelection( ( e ) =>
+            {
+                this.writeObservable( koSelection, e.selection );
+                writeSelectedText();
+            } );
+
+            editor.onDidChangeModelContent( ( e ) =>
+            {
+                this.writeObservable( koLineCount, editor.getModel().getLineCount() );
+                writeSelectedText();
+            } );
+
+            // a model the editor switches to has its own lines and the editor's cursor and selection move with it
+            editor.onDidChangeModel( ( e ) =>
+            {
+                if ( editor.getModel() )
+                    writeModelState();
+            } );
+
+            editor.onDidFocusEditor( () => this.writeObservable( koHasFocus, true ) );
+            editor.onDidBlurEditor( () => this.writeObservable( koHasFocus, false ) );
+
+            // view model to editor
+            if ( ko.isSubscribable( koCursor ) )
+                subscriptions.push( koCursor.subscribe( ( position: monaco.IPosition ) =>
+                {
+                    if ( !position || editor.getPosition().equals( position ) )
+                        return;
+
+                    editor.setPosition( position );
+                    editor.revealPositionInCenterIfOutsideViewport( position );
+                } ) );
+
+            if ( ko.isSubscribable( koSelection ) )
+                subscriptions.push( koSelection.subscribe( ( selection: monaco.IRange ) =>
+                {
+                    if ( !selection || monaco.Range.equalsRange( editor.getSelection(), selection ) )
+                        return;
+
+                    editor.setSelection( selection );
+                    editor.revealRangeInCenterIfOutsideViewport( selection );
+                } ) );
+
+            if ( ko.isSubscribable( koHasFocus ) )
+                subscriptions.push( koHasFocus.subscribe( ( hasFocus: boolean ) =>
+                {
+                    if ( hasFocus && !editor.isFocused() )
+                        editor.focus();
+                    else if ( !hasFocus && editor.isFocused() && document.activeElement instanceof HTMLElement )
+                        ( document.activeElement as HTMLElement ).blur();
+                } ) );
+
+            // push the starting state of the editor to the view model
+            writeModelState();
+            this.writeObservable( koHasFocus, editor.isFocused() );
+
+            this.addEditorDisposeCallback( element.id, () =>
+            {
+                subscriptions.forEach( ( subscription ) => subscription.dispose() );
+            } );
+        }
+
+        /**
+         * bind the 'meDocuments' and 'meActiveDocument' bindings found on the element to the editor. every document in 
+         * the 'meDocuments' array gets its own model whose text is synced two-way with the document's text observable. 
+         * the editor shows the model of 'meActiveDocument' and each document's view state is saved and restored as the 
+         * active document changes. document models are shared like any other model and a editor's use of one is 
+         * released when the document is removed from the array.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindDocuments ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koDocuments = allBindingsAccessor.get( 'meDocuments' );
+            let koActiveDocument = allBindingsAccessor.get( 'meActiveDocument' );
+
+            if ( !koDocuments )
+                return;
+
+            // the editor's starting model is shown whenever there is no active document
+            let fallbackModel = editor.getModel();
+            let subscriptions: KnockoutSubscription[] = [];
+            let entries: {
+                document: IMonacoEditorDocument,
+                model: monaco.editor.IModel,
+                viewState: monaco.editor.ICodeEditorViewState,
+                lastSyncedValue: string,
+                textSubscription: KnockoutSubscription,
+                contentListener: monaco.IDisposable
+            }[] = [];
+            let activeEntry: typeof entries[ 0 ] = null;
+
+            let findEntry = ( document: IMonacoEditorDocument ) =>
+            {
+                return ko.utils.arrayFirst( entries, ( entry ) => entry.document === document );
+            };
+
+            let openDocument = ( document: IMonacoEditorDocument ) =>
+            {
+                let text = ko.utils.unwrapObservable( document.text ) || '';
+
+                // documents share models with other editors bound to the same document text or uri
+                let model = this.acquireModel( element.id, document.text, document.uri, text, document.language );
+                let entry: typeof entries[ 0 ] = {
+                    document: document,
+                    model: model,
+                    viewState: null,
+                    lastSyncedValue: model.getValue(),
+                    textSubscription: null,
+                    contentListener: null
+                };
+
+                // model to document
+                entry.contentListener = model.onDidChangeContent( ( e ) =>
+                {
+                    entry.lastSyncedValue = model.getValue();
+                    this.writeObservable( document.text, entry.lastSyncedValue );
+                } );
+
+                // document to model
+                if ( ko.isSubscribable( document.text ) )
+                    entry.textSubscription = document.text.subscribe( ( value: string ) =>
+                    {
+                        if ( value === entry.lastSyncedValue )
+                            return;
+
+                        this.applyMinimalEdit( model, value, entry === activeEntry ? editor.getSelections() : [] );
+                    } );
+
+                entries.push( entry );
+                return entry;
+            };
+
+            let closeEntry = ( entry: typeof entries[ 0 ] ) =>
+            {
+                if ( entry.textSubscription )
+                    entry.textSubscription.dispose();
+
+                entry.contentListener.dispose();
+                ko.utils.arrayRemoveItem( entries, entry );
+                this.releaseModel( element.id, entry.model );
+            };
+
+            let activate = ( document: IMonacoEditorDocument ) =>
+            {
+                let entry = document ? findEntry( document ) : null;
+
+                if ( entry === activeEntry )
+                    return;
+
+                if ( activeEntry )
+                    activeEntry.viewState = editor.saveViewState();
+
+                activeEntry = entry;
+                editor.setModel( entry ? entry.model : fallbackModel );
+
+                if ( entry && entry.viewState )
+                    editor.restoreViewState( entry.viewState );
+            };
+
+            let syncDocuments = ( documents: IMonacoEditorDocument[] ) =>
+            {
+                documents = documents || [];
+
+                // switch away from the active document before its model is disposed
+                if ( activeEntry && ko.utils.arrayIndexOf( documents, activeEntry.document ) < 0 )
+                {
+                    activate( documents[ 0 ] );
+                    this.writeObservable( koActiveDocument, documents[ 0 ] || null );
+                }
+
+                entries.filter( ( entry ) => ko.utils.arrayIndexOf( documents, entry.document ) < 0 ).forEach( closeEntry );
+
+                documents.forEach( ( document ) =>
+                {
+                    if ( !findEntry( document ) )
+                        openDocument( document );
+                } );
+
+                // the active document may have been added after it was made active
+                activate( ko.utils.peekObservable( koActiveDocument ) );
+            };
+
+            syncDocuments( ko.utils.peekObservable( koDocuments ) );
+
+            if ( ko.isSubscribable( koDocuments ) )
+                subscriptions.push( koDocuments.subscribe( ( documents: IMonacoEditorDocument[] ) => syncDocuments( documents ) ) );
+
+            if ( ko.isSubscribable( koActiveDocument ) )
+                subscriptions.push( koActiveDocument.subscribe( ( document: IMonacoEditorDocument ) => activate( document ) ) );
+
+            this.addEditorDisposeCallback( element.id, () =>
+            {
+                subscriptions.forEach( ( subscription ) => subscription.dispose() );
+                entries.slice().forEach( closeEntry );
+            } );
+        }
+
+        /**
+         * convert a keybinding string such as 'CtrlCmd+Shift+S' or 'F8' into a monaco keybinding number. numbers are 
+         * returned as they are
+         * 
+         * @private
+         * @param {(number | string)} keybinding a keybinding number or string
+         * @returns {number} the monaco keybinding or 0 when the key is unknown
+         * @memberof MonacoEditorStore
+         */
+        private parseKeybinding ( keybinding: number | string ): number
+        {
+            if ( typeof keybinding === 'number' )
+                return keybinding;
+
+            let parsedKeybinding = 0;
+
+            ( keybinding as string ).split( '+' ).forEach( ( part ) =>
+            {
+                let name = part.trim().toLowerCase();
+
+                if ( name === 'ctrl' || name === 'cmd' || name === 'ctrlcmd' )
+                    parsedKeybinding |= monaco.KeyMod.CtrlCmd;
+                else if ( name === 'shift' )
+                    parsedKeybinding |= monaco.KeyMod.Shift;
+                else if ( name === 'alt' )
+                    parsedKeybinding |= monaco.KeyMod.Alt;
+                else if ( name === 'win' || name === 'winctrl' )
+                    parsedKeybinding |= monaco.KeyMod.WinCtrl;
+                else
+                {
+                    let keyCodes = monaco.KeyCode as any;
+                    let keyCode = /^[a-z0-9]$/.test( name ) ? keyCodes[ `KEY_${ name.toUpperCase() }` ] : undefined;
+
+                    if ( keyCode === undefined )
+                        for ( var key in keyCodes )
+                        {
+                            if ( key.toLowerCase() === name && typeof keyCodes[ key ] === 'number' )
+                                keyCode = keyCodes[ key ];
+                        }
+
+                    if ( keyCode === undefined )
+                        console.warn( `unknown key '${ part }' in keybinding '${ keybinding }'` );
+                    else
+                        parsedKeybinding |= keyCode;
+                }
+            } );
+
+            return parsedKeybinding;
+        }
+
+        /**
+         * get the clean state of a model shown by a editor. a model the editor has not shown before is clean as it is
+         * 
+         * @private
+         * @param {string} id unique id of the editor
+         * @param {monaco.editor.IModel} model the model shown by the editor
+         * @returns {{ model: monaco.editor.IModel, versionId: number, value: string }} the clean state of the model
+         * @memberof MonacoEditorStore
+         */
+        private getCleanRecord ( id: string, model: monaco.editor.IModel ): { model: monaco.editor.IModel, versionId: number, value: string }
+        {
+            let cleanState = this._cleanStates[ id ];
+            let record = ko.utils.arrayFirst( cleanState.records, ( cleanRecord ) => cleanRecord.model === model );
+
+            if ( !record )
+            {
+                record = { model: model, versionId: model.getAlternativeVersionId(), value: model.getValue() };
+                cleanState.records.push( record );
+            }
+
+            return record;
+        }
+
+        /**
+         * keep the 'meDirty' binding of a editor up to date, call 'meChange' with every structured content change and 
+         * call 'meOnSave' when Ctrl/Cmd+S is pressed. 'meOnSave' is called with the view model as 'this' and the value 
+         * and editor as arguments. the saved content is marked clean right away, or once a returned promise resolves, 
+         * unless the callback returns false
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.IStandaloneCodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindChanges ( element: HTMLElement, editor: monaco.editor.IStandaloneCodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koDirty = allBindingsAccessor.get( 'meDirty' );
+            let onChange = ko.utils.unwrapObservable( allBindingsAccessor.get( 'meChange' ) );
+            let onSave = ko.utils.unwrapObservable( allBindingsAccessor.get( 'meOnSave' ) );
+            let viewModel = ko.dataFor( element );
+            let cleanState = this._cleanStates[ element.id ];
+
+            cleanState.refresh = () =>
+            {
+                let model = editor.getModel();
+
+                this.writeObservable( koDirty, !!model && this.getCleanRecord( element.id, model ).versionId !== model.getAlternativeVersionId() );
+            };
+
+            editor.onDidChangeModelContent( ( e ) =>
+            {
+                cleanState.refresh();
+
+                if ( typeof onChange === 'function' )
+                    onChange.call( viewModel, e, editor );
+            } );
+
+            editor.onDidChangeModel( () => cleanState.refresh() );
+
+            if ( typeof onSave === 'function' )
+                editor.addCommand( monaco.KeyMod.CtrlCmd | monaco.KeyCode.KEY_S, () =>
+                {
+                    let model = editor.getModel();
+                    let value = model.getValue();
+                    let versionId = model.getAlternativeVersionId();
+                    let result = onSave.call( viewModel, value, editor );
+
+                    let markSaved = () =>
+                    {
+                        // the editor may be gone by the time a save resolves
+                        if ( this._cleanStates[ element.id ] !== cleanState || model.isDisposed() )
+                            return;
+
+                        let record = this.getCleanRecord( element.id, model );
+
+                        record.versionId = versionId;
+                        record.value = value;
+                        cleanState.refresh();
+                    };
+
+                    if ( result && typeof result.then === 'function' )
+                        result.then( markSaved, () => { } );
+                    else if ( result !== false )
+                        markSaved();
+                }, null );
+
+            cleanState.refresh();
+        }
+
+        /**
+         * bind the 'meActions' binding found on the element to the editor. every action is added to the editor with 
+         * 'addAction' and calls its 'run' function with the element's view model as 'this'. a observable 'enabled' 
+         * flag is mapped to a context key that is part of the action's precondition. actions are replaced when a 
+         * observable array of actions changes and are disposed with the editor.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.IStandaloneCodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindActions ( element: HTMLElement, editor: monaco.editor.IStandaloneCodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koActions = allBindingsAccessor.get( 'meActions' );
+
+            if ( !koActions )
+                return;
+
+            let viewModel = ko.dataFor( element );
+            let contextKeys: { [ key: string ]: monaco.editor.IContextKey<boolean> } = {};
+            let actionDisposables: monaco.IDisposable[] = [];
+            let enabledSubscriptions: KnockoutSubscription[] = [];
+            let actionsSubscription: KnockoutSubscription;
+
+            let removeActions = () =>
+            {
+                actionDisposables.forEach( ( disposable ) => disposable.dispose() );
+                enabledSubscriptions.forEach( ( subscription ) => subscription.dispose() );
+                actionDisposables = [];
+                enabledSubscriptions = [];
+            };
+
+            let addActions = ( actions: IMonacoEditorAction[] ) =>
+            {
+                removeActions();
+
+                ( actions || [] ).forEach( ( action ) =>
+                {
+                    let precondition = action.precondition;
+
+                    if ( action.enabled !== undefined )
+                    {
+                        let contextKeyName = `koMonacoActionEnabled_${ action.id.replace( /[^\w]/g, '_' ) }`;
+                        let contextKey = contextKeys[ contextKeyName ] =
+                            contextKeys[ contextKeyName ] || editor.createContextKey( contextKeyName, true );
+
+                        contextKey.set( !!ko.utils.unwrapObservable( action.enabled ) );
+                        precondition = precondition ? `${ contextKeyName } && ${ precondition }` : contextKeyName;
+
+                        if ( ko.isSubscribable( action.enabled ) )
+                            enabledSubscriptions.push( action.enabled.subscribe( ( enabled: boolean ) => contextKey.set( !!enabled ) ) );
+                    }
+
+                    actionDisposables.push( editor.addAction( {
+                        id: action.id,
+                        label: action.label,
+                        keybindings: ( action.keybindings || [] ).map( ( keybinding ) => this.parseKeybinding( keybinding ) ),
+                        contextMenuGroupId: action.contextMenuGroupId,
+                        contextMenuOrder: action.contextMenuOrder,
+                        precondition: precondition,
+                        run: ( e ) => action.run.call( viewModel, e )
+                    } ) );
+                } );
+            };
+
+            addActions( ko.utils.peekObservable( koActions ) );
+
+            if ( ko.isSubscribable( koActions ) )
+                actionsSubscription = koActions.subscribe( ( actions: IMonacoEditorAction[] ) => addActions( actions ) );
+
+            this.addEditorDisposeCallback( element.id, () =>
+            {
+                if ( actionsSubscription )
+                    actionsSubscription.dispose();
+
+                removeActions();
+            } );
+        }
+
+        /**
+         * bind the 'meCompletions', 'meHover' and 'meSignatureHelp' bindings found on the element to language providers 
+         * that only answer for the model shown by the editor. each binding is a view model function called with a 
+         * IMonacoEditorProviderContext and the view model as 'this', returning a result, a promise or a observable of 
+         * the result. 'meCompletions' may also be a array or observable array of completion items. the providers are 
+         * registered for the language of the editor's model, follow it when it changes and are disposed with the 
+         * element.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindProviders ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let completions = allBindingsAccessor.get( 'meCompletions' );
+            let hover = allBindingsAccessor.get( 'meHover' );
+            let signatureHelp = allBindingsAccessor.get( 'meSignatureHelp' );
+
+            if ( !completions && !hover && !signatureHelp )
+                return;
+
+            let viewModel = ko.dataFor( element );
+            let registrations: monaco.IDisposable[] = [];
+            let registeredLanguage: string = null;
+
+            // call the view model and settle whatever it returns into a plain value, possibly through a promise
+            let provide = ( provider: any, model: monaco.editor.IReadOnlyModel, position: monaco.Position, settle: ( result: any ) => any ): any =>
+            {
+                if ( model !== editor.getModel() )
+                    return null;
+
+                let word = model.getWordUntilPosition( position );
+                let context: IMonacoEditorProviderContext = {
+                    model: model,
+                    position: position,
+                    word: word ? word.word : '',
+                    lineText: model.getLineContent( position.lineNumber ).substring( 0, position.column - 1 )
+                };
+
+                provider = ko.utils.unwrapObservable( provider );
+
+                let result = typeof provider === 'function' ? provider.call( viewModel, context ) : provider;
+
+                result = ko.utils.unwrapObservable( result );
+
+                if ( result && typeof result.then === 'function' )
+                    return result.then( ( value: any ) => settle( ko.utils.unwrapObservable( value ) ) );
+
+                return settle( result );
+            };
+
+            let toCompletionItems = ( items: any[] ): monaco.languages.CompletionItem[] =>
+            {
+                return ( items || [] ).map( ( item ) =>
+                {
+                    if ( typeof item === 'string' )
+                        item = { label: item };
+
+                    if ( item.kind === undefined )
+                        item = ko.utils.extend( { kind: monaco.languages.CompletionItemKind.Text }, item );
+
+                    return item as monaco.languages.CompletionItem;
+                } );
+            };
+
+            let toHover = ( value: any ): monaco.languages.Hover =>
+            {
+                if ( !value )
+                    return null;
+
+                if ( typeof value === 'string' || value instanceof Array )
+                    return { contents: [].concat( value ), range: undefined };
+
+                return value as monaco.languages.Hover;
+            };
+
+            let unregister = () =>
+            {
+                registrations.forEach( ( registration ) => registration.dispose() );
+                registrations = [];
+                registeredLanguage = null;
+            };
+
+            let register = () =>
+            {
+                let model = editor.getModel();
+                let language = model ? model.getModeId() : null;
+
+                if ( language === registeredLanguage )
+                    return;
+
+                unregister();
+
+                if ( !language )
+                    return;
+
+                registeredLanguage = language;
+
+                if ( completions )
+                    registrations.push( monaco.languages.registerCompletionItemProvider( language, {
+                        provideCompletionItems: ( model, position ) =>
+                            provide( completions, model, position, toCompletionItems )
+                    } ) );
+
+                if ( hover )
+                    registrations.push( monaco.languages.registerHoverProvider( language, {
+                        provideHover: ( model, position ) => provide( hover, model, position, toHover )
+                    } ) );
+
+                if ( signatureHelp )
+                    registrations.push( monaco.languages.registerSignatureHelpProvider( language, {
+                        signatureHelpTriggerCharacters: [ '(', ',' ],
+                        provideSignatureHelp: ( model, position ) =>
+                            provide( signatureHelp, model, position, ( value ) => value || null )
+                    } ) );
+            };
+
+            register();
+
+            editor.onDidChangeModel( ( e ) => register() );
+            editor.onDidChangeModelLanguage( ( e ) => register() );
+
+            this.addEditorDisposeCallback( element.id, unregister );
+        }
+
+        /**
+         * convert a view model marker into monaco marker data
+         * 
+         * @private
+         * @param {IMonacoEditorMarker} marker a view model marker
+         * @returns {monaco.editor.IMarkerData} the marker data for monaco
+         * @memberof MonacoEditorStore
+         */
+        private toMarkerData ( marker: IMonacoEditorMarker ): monaco.editor.IMarkerData
+        {
+            let severity = monaco.Severity.Error;
+
+            if ( typeof marker.severity === 'number' )
+                severity = marker.severity as monaco.Severity;
+            else if ( marker.severity === 'warning' )
+                severity = monaco.Severity.Warning;
+            else if ( marker.severity === 'info' )
+                severity = monaco.Severity.Info;
+            else if ( marker.severity === 'ignore' )
+                severity = monaco.Severity.Ignore;
+
+            return {
+                severity: severity,
+                message: marker.message,
+                source: marker.source,
+                startLineNumber: marker.startLine,
+                startColumn: marker.startColumn,
+                endLineNumber: marker.endLine,
+                endColumn: marker.endColumn
+            };
+        }
+
+        /**
+         * keep the state a binding puts on the editor's model with the model the editor shows. the state belongs to 
+         * the document, so it is cleared from the old model and applied to the new one whenever the editor switches 
+         * models, and cleared when the editor is disposed. what clear returns is kept for the model it was cleared 
+         * from and given back to apply when the editor switches back to that model, until it is released. models 
+         * that are already disposed are not cleared and nothing is kept for them
+         * 
+         * @private
+         * @template T the state kept for the models the editor does not show
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {(model: monaco.editor.IModel, keptState: T) => void} apply puts the binding's state on a model, 
+         * given the state kept for the model or undefined
+         * @param {(model: monaco.editor.IModel) => T} clear takes the binding's state off a model and returns the 
+         * state to keep for it, if any
+         * @param {(model: monaco.editor.IModel, keptState: T) => void} [release] removes a kept state from its model
+         * @returns {() => void} a function releasing the states kept for the models the editor does not show
+         * @memberof MonacoEditorStore
+         */
+        private bindToEditorModel<T> ( element: HTMLElement, editor: monaco.editor.ICodeEditor, apply: ( model: monaco.editor.IModel, keptState: T ) => void,
+            clear: ( model: monaco.editor.IModel ) => T, release?: ( model: monaco.editor.IModel, keptState: T ) => void ): () => void
+        {
+            let model = editor.getModel();
+            let kept: { model: monaco.editor.IModel, state: T }[] = [];
+
+            let releaseKept = () =>
+            {
+                if ( release )
+                    kept.filter( ( entry ) => !entry.model.isDisposed() ).forEach( ( entry ) => release( entry.model, entry.state ) );
+
+                kept = [];
+            };
+
+            let applyKept = () =>
+            {
+                let entry = ko.utils.arrayFirst( kept, ( keptEntry ) => keptEntry.model === model );
+
+                ko.utils.arrayRemoveItem( kept, entry );
+                apply( model, entry ? entry.state : undefined );
+            };
+
+            editor.onDidChangeModel( ( e ) =>
+            {
+                if ( model && !model.isDisposed() )
+                {
+                    let state = clear( model );
+
+                    if ( state !== undefined )
+                        kept.push( { model: model, state: state } );
+                }
+
+                kept = kept.filter( ( entry ) => !entry.model.isDisposed() );
+                model = editor.getModel();
+
+                if ( model )
+                    applyKept();
+            } );
+
+            if ( model )
+                applyKept();
+
+            this.addEditorDisposeCallback( element.id, () =>
+            {
+                if ( model && !model.isDisposed() )
+                {
+                    let state = clear( model );
+
+                    if ( state !== undefined && release )
+                        release( model, state );
+                }
+
+                releaseKept();
+            } );
+
+            return releaseKept;
+        }
+
+        /**
+         * bind the 'meMarkers' and 'meModelMarkers' bindings found on the element to the editor's model. markers in 
+         * 'meMarkers' are set on the model whenever the array changes and follow the text they were placed on as the 
+         * model is edited, also while the editor shows another model. 'meModelMarkers' receives every marker on the model, including those of monaco's own 
+         * language services.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindMarkers ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koMarkers = allBindingsAccessor.get( 'meMarkers' );
+            let koModelMarkers = allBindingsAccessor.get( 'meModelMarkers' );
+            let owner = `${ markerOwnerPrefix }${ element.id }`;
+            let model: monaco.editor.IModel = null;
+            let markers: monaco.editor.IMarkerData[] = [];
+            let trackingDecorationIds: string[] = [];
+
+            let writeModelMarkers = () =>
+            {
+                if ( model )
+                    this.writeObservable( koModelMarkers, monaco.editor.getModelMarkers( { resource: model.uri } ) );
+            };
+
+            let setMarkers = ( viewModelMarkers: IMonacoEditorMarker[] ) =>
+            {
+                markers = ( viewModelMarkers || [] ).map( ( marker ) => this.toMarkerData( marker ) );
+
+                // invisible decorations track where each marker's text moves to as the model is edited
+                trackingDecorationIds = model.deltaDecorations( trackingDecorationIds, markers.map( ( marker ) =>
+                {
+                    return {
+                        range: new monaco.Range( marker.startLineNumber, marker.startColumn, marker.endLineNumber, marker.endColumn ),
+                        options: { stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges }
+                    } as monaco.editor.IModelDeltaDecoration;
+                } ) );
+
+                monaco.editor.setModelMarkers( model, owner, markers );
+            };
+
+            // remap the markers onto the ranges their text moved to
+            let remapMarkers = () =>
+            {
+                markers = markers.map( ( marker, index ) =>
+                {
+                    let range = model.getDecorationRange( trackingDecorationIds[ index ] );
+
+                    if ( !range )
+                        return marker;
+
+                    return ko.utils.extend( ko.utils.extend( {}, marker ), {
+                        startLineNumber: range.startLineNumber,
+                        startColumn: range.startColumn,
+                        endLineNumber: range.endLineNumber,
+                        endColumn: range.endColumn
+                    } ) as monaco.editor.IMarkerData;
+                } );
+
+                monaco.editor.setModelMarkers( model, owner, markers );
+            };
+
+            editor.onDidChangeModelContent( ( e ) =>
+            {
+                if ( markers.length > 0 )
+                    remapMarkers();
+            } );
+
+            // markers are rendered as decorations, so a decoration change is when the model's markers may have changed
+            if ( ko.isWriteableObservable( koModelMarkers ) )
+                editor.onDidChangeModelDecorations( ( e ) => writeModelMarkers() );
+
+            // the tracking decorations stay on models the editor switches away from, so markers are back on their 
+            // text when the editor switches back
+            let releaseKeptMarkers = this.bindToEditorModel( element, editor, ( editorModel, keptMarkers: { markers: monaco.editor.IMarkerData[], trackingDecorationIds: string[] } ) =>
+            {
+                model = editorModel;
+
+                if ( keptMarkers )
+                {
+                    markers = keptMarkers.markers;
+                    trackingDecorationIds = keptMarkers.trackingDecorationIds;
+                    remapMarkers();
+                }
+                else
+                    setMarkers( ko.utils.unwrapObservable( koMarkers ) );
+
+                writeModelMarkers();
+            }, ( editorModel ) =>
+            {
+                let keptMarkers = { markers: markers, trackingDecorationIds: trackingDecorationIds };
+
+                monaco.editor.setModelMarkers( editorModel, owner, [] );
+                model = null;
+                trackingDecorationIds = [];
+                markers = [];
+
+                return keptMarkers;
+            }, ( editorModel, keptMarkers ) => editorModel.deltaDecorations( keptMarkers.trackingDecorationIds, [] ) );
+
+            if ( ko.isSubscribable( koMarkers ) )
+            {
+                let subscription = koMarkers.subscribe( ( viewModelMarkers: IMonacoEditorMarker[] ) =>
+                {
+                    // new markers from the view model replace the ones kept for other models too
+                    releaseKeptMarkers();
+
+                    if ( model )
+                        setMarkers( viewModelMarkers );
+                } );
+
+                this.addEditorDisposeCallback( element.id, () => subscription.dispose() );
+            }
+        }
+
+        /**
+         * bind the 'meDecorations' and 'meGutterClick' bindings found on the element. decorations are compared with 
+         * the ones already applied so that each update only adds and removes the decorations that changed, and they 
+         * follow the text they were placed on as the model is edited. 'meGutterClick' is called with the view model as 
+         * 'this' and the line number and monaco mouse target of clicks in the glyph margin, line numbers or line 
+         * decorations.
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindDecorations ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koDecorations = allBindingsAccessor.get( 'meDecorations' );
+            let onGutterClick = ko.utils.unwrapObservable( allBindingsAccessor.get( 'meGutterClick' ) );
+            let viewModel = ko.dataFor( element );
+            let model: monaco.editor.IModel = null;
+            let applied: { key: string, id: string }[] = [];
+
+            let setDecorations = ( decorations: IMonacoEditorDecoration[] ) =>
+            {
+                let plainDecorations = ( ko.toJS( decorations ) || [] ) as IMonacoEditorDecoration[];
+                let unchanged: { [ key: string ]: string[] } = {};
+                let kept: { key: string, id: string }[] = [];
+                let added: { key: string, decoration: IMonacoEditorDecoration }[] = [];
+
+                applied.forEach( ( decoration ) => ( unchanged[ decoration.key ] = unchanged[ decoration.key ] || [] ).push( decoration.id ) );
+
+                plainDecorations.forEach( ( decoration ) =>
+                {
+                    let key = JSON.stringify( decoration );
+
+                    if ( unchanged.hasOwnProperty( key ) && unchanged[ key ].length > 0 )
+                        kept.push( { key: key, id: unchanged[ key ].shift() } );
+                    else
+                        added.push( { key: key, decoration: decoration } );
+                } );
+
+                let removedIds: string[] = [];
+
+                for ( var key in unchanged )
+                    if ( unchanged.hasOwnProperty( key ) )
+                        removedIds = removedIds.concat( unchanged[ key ] );
+
+                let addedIds = model.deltaDecorations( removedIds, added.map( ( addition ) =>
+                {
+                    return {
+                        range: addition.decoration.range,
+                        options: {
+                            className: addition.decoration.className,
+                            glyphMarginClassName: addition.decoration.glyphClassName,
+                            inlineClassName: addition.decoration.inlineClassName,
+                            hoverMessage: addition.decoration.hoverMessage,
+                            isWholeLine: addition.decoration.isWholeLine,
+                            stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+                        }
+                    } as monaco.editor.IModelDeltaDecoration;
+                } ) );
+
+                applied = kept.concat( added.map( ( addition, index ) => { return { key: addition.key, id: addedIds[ index ] }; } ) );
+            };
+
+            if ( typeof onGutterClick === 'function' )
+                editor.onMouseDown( ( e ) =>
+                {
+                    let type = e.target.type;
+
+                    if ( !e.target.position || ( type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN &&
+                        type !== monaco.editor.MouseTargetType.GUTTER_LINE_NUMBERS &&
+                        type !== monaco.editor.MouseTargetType.GUTTER_LINE_DECORATIONS ) )
+                        return;
+
+                    onGutterClick.call( viewModel, e.target.position.lineNumber, e.target );
+                } );
+
+            if ( koDecorations === undefined )
+                return;
+
+            this.bindToEditorModel( element, editor, ( editorModel ) =>
+            {
+                model = editorModel;
+                setDecorations( ko.utils.unwrapObservable( koDecorations ) );
+            }, ( editorModel ) =>
+            {
+                editorModel.deltaDecorations( applied.map( ( decoration ) => decoration.id ), [] );
+                model = null;
+                applied = [];
+            } );
+
+            if ( ko.isSubscribable( koDecorations ) )
+            {
+                let subscription = koDecorations.subscribe( ( decorations: IMonacoEditorDecoration[] ) =>
+                {
+                    if ( model )
+                        setDecorations( decorations );
+                } );
+
+                this.addEditorDisposeCallback( element.id, () => subscription.dispose() );
+            }
+        }
+
+        /**
+         * find the range of a read only region in a model. regions located by text that cannot be found are left out
+         * 
+         * @private
+         * @param {monaco.editor.IModel} model the model to find the region in
+         * @param {IMonacoEditorReadOnlyRange} readOnlyRange the region
+         * @returns {monaco.Range} the range of the region or null when it cannot be found
+         * @memberof MonacoEditorStore
+         */
+        private toReadOnlyRange ( model: monaco.editor.IModel, readOnlyRange: IMonacoEditorReadOnlyRange ): monaco.Range
+        {
+            if ( !readOnlyRange.start )
+                return model.validateRange( new monaco.Range( readOnlyRange.startLine, readOnlyRange.startColumn || 1,
+                    readOnlyRange.endLine, readOnlyRange.endColumn || model.getLineMaxColumn( readOnlyRange.endLine ) ) );
+
+            let value = model.getValue();
+            let startOffset = value.indexOf( readOnlyRange.start );
+            let endOffset = startOffset + readOnlyRange.start.length;
+
+            if ( startOffset >= 0 && readOnlyRange.end )
+            {
+                let endTextOffset = value.indexOf( readOnlyRange.end, endOffset );
+
+                endOffset = endTextOffset < 0 ? -1 : endTextOffset + readOnlyRange.end.length;
+            }
+
+            if ( startOffset < 0 || endOffset < 0 )
+            {
+                console.warn( `read only range '${ readOnlyRange.start }' cannot be found` );
+                return null;
+            }
+
+            let start = model.getPositionAt( startOffset );
+            let end = model.getPositionAt( endOffset );
+
+            return new monaco.Range( start.lineNumber, start.column, end.lineNumber, end.column );
+        }
+
+        /**
+         * let a guard veto the edits made to a model before they are applied. monaco has no event before a edit, so the
+         * model's pushEditOperations, which typing, pasting, dropping, multi-cursor edits and executeEdits all go 
+         * through, is wrapped while the model has guards. values from the view model are never vetoed. rejected edits 
+         * leave the model, the undo stack and the cursors as they were
+         * 
+         * @private
+         * @param {monaco.editor.IModel} model the model to guard
+         * @param {(operations: monaco.editor.IIdentifiedSingleEditOperation[]) => boolean} guard returns false to 
+         * reject the edit operations
+         * @returns {() => void} a function removing the guard
+         * @memberof MonacoEditorStore
+         */
+        private addEditGuard ( model: monaco.editor.IModel, guard: ( operations: monaco.editor.IIdentifiedSingleEditOperation[] ) => boolean ): () => void
+        {
+            let entry = ko.utils.arrayFirst( this._editGuards, ( editGuard ) => editGuard.model === model );
+
+            if ( !entry )
+            {
+                let pushEditOperations = model.pushEditOperations;
+
+                entry = { model: model, guards: [], disposeListener: null };
+                this._editGuards.push( entry );
+
+                // a disposed model is not edited anymore, whether or not its guards were removed
+                entry.disposeListener = model.onWillDispose( () => ko.utils.arrayRemoveItem( this._editGuards, entry ) );
+
+                model.pushEditOperations = ( beforeCursorState, editOperations, cursorStateComputer ) =>
+                {
+                    if ( !this._applyingViewModelEdit && entry.guards.some( ( editGuard ) => !editGuard( editOperations ) ) )
+                        return beforeCursorState;
+
+                    return pushEditOperations.call( model, beforeCursorState, editOperations, cursorStateComputer );
+                };
+            }
+
+            entry.guards.push( guard );
+
+            return () =>
+            {
+                ko.utils.arrayRemoveItem( entry.guards, guard );
+
+                if ( entry.guards.length > 0 )
+                    return;
+
+                // the model goes back to the pushEditOperations of its prototype
+                ko.utils.arrayRemoveItem( this._editGuards, entry );
+                entry.disposeListener.dispose();
+                delete ( model as any ).pushEditOperations;
+            };
+        }
+
+        /**
+         * lock the regions in the 'meReadOnlyRanges' binding found on the element. locked regions are shown with the 
+         * 'me-readonly-range' class and follow their text as the model is edited. edits from the user that touch a 
+         * locked region, including pastes, drops and multi-cursor edits, are rejected before they reach the model, 
+         * while values written to the bound view model property are applied as they are. text may be added next to a 
+         * locked region only on lines of its own. locked regions of a model the editor switches away from keep 
+         * following their text and are locked again when the editor switches back
+         * 
+         * @private
+         * @param {HTMLElement} element the DOM element the editor was created within
+         * @param {monaco.editor.ICodeEditor} editor the created editor
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private bindReadOnlyRanges ( element: HTMLElement, editor: monaco.editor.ICodeEditor, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            let koReadOnlyRanges = allBindingsAccessor.get( 'meReadOnlyRanges' );
+            let model: monaco.editor.IModel = null;
+            let regions: IMonacoEditorReadOnlyRange[] = [];
+            let decorationIds: string[] = [];
+            let removeEditGuard: () => void = null;
+
+            if ( koReadOnlyRanges === undefined )
+                return;
+
+            let decorate = ( ranges: monaco.IRange[], className: string ) =>
+            {
+                decorationIds = model.deltaDecorations( decorationIds, ranges.map( ( range ) =>
+                {
+                    return {
+                        range: range,
+                        options: {
+                            className: className,
+                            stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+                        }
+                    } as monaco.editor.IModelDeltaDecoration;
+                } ) );
+            };
+
+            let setRanges = ( readOnlyRanges: IMonacoEditorReadOnlyRange[] ) =>
+            {
+                let ranges: monaco.Range[] = [];
+
+                regions = [];
+
+                ( readOnlyRanges || [] ).forEach( ( readOnlyRange ) =>
+                {
+                    let range = this.toReadOnlyRange( model, readOnlyRange );
+
+                    if ( range )
+                    {
+                        regions.push( readOnlyRange );
+                        ranges.push( range );
+                    }
+                } );
+
+                decorate( ranges, 'me-readonly-range' );
+            };
+
+            // values from the view model are applied as they are and may remove all of a locked region's text, so 
+            // find such a region again from the bound value rather than let its lock vanish
+            let relockEmptyRanges = () =>
+            {
+                let ranges = decorationIds.map( ( decorationId ) => model.getDecorationRange( decorationId ) );
+
+                if ( !ranges.some( ( range ) => !range || range.isEmpty() ) )
+                    return;
+
+                let lockedRegions = regions;
+                let lockedRanges: monaco.Range[] = [];
+
+                regions = [];
+
+                ranges.forEach( ( range, index ) =>
+                {
+                    if ( !range || range.isEmpty() )
+                    {
+                        range = this.toReadOnlyRange( model, lockedRegions[ index ] );
+
+                        if ( range && range.isEmpty() )
+                        {
+                            console.warn( `a read only range on '${ element.id }' has no text left and is no longer locked` );
+                            range = null;
+                        }
+                    }
+
+                    if ( range )
+                    {
+                        regions.push( lockedRegions[ index ] );
+                        lockedRanges.push( range );
+                    }
+                } );
+
+                decorate( lockedRanges, 'me-readonly-range' );
+            };
+
+            let touchesLockedRange = ( operation: monaco.editor.IIdentifiedSingleEditOperation, lockedRange: monaco.Range ) =>
+            {
+                let range = monaco.Range.lift( operation.range );
+                let text = operation.text || '';
+                let start = lockedRange.getStartPosition();
+                let end = lockedRange.getEndPosition();
+
+                if ( !range.isEmpty() )
+                {
+                    let intersection = monaco.Range.intersectRanges( range, lockedRange );
+
+                    if ( intersection && !intersection.isEmpty() )
+                        return true;
+
+                    // removing the line break next to a locked range pulls other text onto its lines
+                    return range.startLineNumber !== range.endLineNumber &&
+                        ( range.getStartPosition().equals( end ) || range.getEndPosition().equals( start ) );
+                }
+
+                if ( text.length === 0 )
+                    return false;
+
+                // at the edges text may only be added on lines of its own
+                if ( range.getStartPosition().equals( start ) )
+                    return start.column !== 1 || !/[\r\n]$/.test( text );
+
+                if ( range.getStartPosition().equals( end ) )
+                    return end.column !== model.getLineMaxColumn( end.lineNumber ) || !/^[\r\n]/.test( text );
+
+                return monaco.Range.containsPosition( lockedRange, range.getStartPosition() );
+            };
+
+            let canEdit = ( operations: monaco.editor.IIdentifiedSingleEditOperation[] ) =>
+            {
+                let lockedRanges = decorationIds
+                    .map( ( decorationId ) => model.getDecorationRange( decorationId ) )
+                    .filter( ( range ) => range && !range.isEmpty() );
+
+                return !operations.some( ( operation ) =>
+                    lockedRanges.some( ( lockedRange ) => touchesLockedRange( operation, lockedRange ) ) );
+            };
+
+            // models the editor switches away from keep their locked regions as plain tracked ranges, so the regions 
+            // follow their text and are locked again when the editor switches back
+            let releaseKeptRanges = this.bindToEditorModel( element, editor, ( editorModel, keptRanges: { regions: IMonacoEditorReadOnlyRange[], decorationIds: string[] } ) =>
+            {
+                model = editorModel;
+
+                if ( keptRanges )
+                {
+                    regions = keptRanges.regions;
+                    decorationIds = keptRanges.decorationIds;
+                    decorate( decorationIds.map( ( decorationId ) => model.getDecorationRange( decorationId ) ), 'me-readonly-range' );
+                    relockEmptyRanges();
+                }
+                else
+                    setRanges( ko.utils.unwrapObservable( koReadOnlyRanges ) );
+
+                removeEditGuard = this.addEditGuard( model, canEdit );
+            }, ( editorModel ) =>
+            {
+                removeEditGuard();
+                decorate( decorationIds.map( ( decorationId ) => model.getDecorationRange( decorationId ) ), null );
+
+                let keptRanges = { regions: regions, decorationIds: decorationIds };
+
+                model = null;
+                regions = [];
+                decorationIds = [];
+
+                return keptRanges;
+            }, ( editorModel, keptRanges ) => editorModel.deltaDecorations( keptRanges.decorationIds, [] ) );
+
+            editor.onDidChangeModelContent( ( e ) =>
+            {
+                if ( model )
+                    relockEmptyRanges();
+            } );
+
+            if ( ko.isSubscribable( koReadOnlyRanges ) )
+            {
+                let subscription = koReadOnlyRanges.subscribe( ( readOnlyRanges: IMonacoEditorReadOnlyRange[] ) =>
+                {
+                    // new regions from the view model replace the ones kept for other models too
+                    releaseKeptRanges();
+
+                    if ( model )
+                        setRanges( readOnlyRanges );
+                } );
+
+                this.addEditorDisposeCallback( element.id, () => subscription.dispose() );
+            }
+        }
+
+        /**
+         * get the text model for a editor, sharing the model of any other editor bound to the same observable or with 
+         * the same uri. a new model is created with the value and language when there is none to share
+         * 
+         * @private
+         * @param {string} id unique id of the editor that will use the model
+         * @param {*} koModelProp the view model property the editor is bound to
+         * @param {string} uri the explicit uri of the model from 'meModelUri', if any
+         * @param {string} value the value for a new model
+         * @param {string} language the language for a new model
+         * @returns {monaco.editor.IModel} the model for the editor
+         * @memberof MonacoEditorStore
+         */
+        private acquireModel ( id: string, koModelProp: any, uri: string, value: string, language: string ): monaco.editor.IModel
+        {
+            let source = ko.isObservable( koModelProp ) ? koModelProp : null;
+            let entry = ko.utils.arrayFirst( this._sharedModels, ( sharedModel ) =>
+                uri ? sharedModel.uri === uri : ( source !== null && sharedModel.source === source ) );
+
+            if ( !entry )
+            {
+                entry = {
+                    uri: uri || null,
+                    source: source,
+                    model: monaco.editor.createModel( value, language, uri ? monaco.Uri.parse( uri ) : undefined ),
+                    editorIds: []
+                };
+
+                this._sharedModels.push( entry );
+            }
+
+            entry.editorIds.push( id );
+            return entry.model;
+        }
+
+        /**
+         * release one use of a model by a editor, disposing the model once no editor uses it
+         * 
+         * @private
+         * @param {string} id unique id of the editor
+         * @param {monaco.editor.IModel} model the model acquired by the editor
+         * @memberof MonacoEditorStore
+         */
+        private releaseModel ( id: string, model: monaco.editor.IModel ): void
+        {
+            let entry = ko.utils.arrayFirst( this._sharedModels, ( sharedModel ) => sharedModel.model === model );
+            let index = entry ? ko.utils.arrayIndexOf( entry.editorIds, id ) : -1;
+
+            if ( index < 0 )
+                return;
+
+            entry.editorIds.splice( index, 1 );
+
+            if ( entry.editorIds.length > 0 )
+                return;
+
+            ko.utils.arrayRemoveItem( this._sharedModels, entry );
+            entry.model.dispose();
+        }
+
+        /**
+         * release every model used by a editor, disposing those no other editor uses
+         * 
+         * @private
+         * @param {string} id unique id of the editor
+         * @memberof MonacoEditorStore
+         */
+        private releaseModels ( id: string ): void
+        {
+            this._sharedModels.slice().forEach( ( entry ) =>
+            {
+                while ( ko.utils.arrayIndexOf( entry.editorIds, id ) >= 0 )
+                    this.releaseModel( id, entry.model );
+            } );
+        }
+
+        private disposeDiffEditor ( id: string ): void
+        {
+            let diffEditor = this._monacoDiffEditorInstances[ id ];
+            let callbacks = this._editorDisposeCallbacks[ id ] || [];
+
+            delete this._editorDisposeCallbacks[ id ];
+
+            this.unobserveSize( id );
+            this._monacoDiffNavigators[ id ].dispose();
+            diffEditor.dispose();
+            callbacks.forEach( ( callback ) => callback() );
+
+            // the diff editor does not own its models so they need to be released along with it
+            this.releaseModels( id );
+
+            delete this._monacoDiffNavigators[ id ];
+            delete this._monacoDiffEditorInstances[ id ];
+            delete this._monacoEditorOptions[ id ];
+
+            this._events.notifySubscribers( { id: id, editor: diffEditor.getModifiedEditor() }, 'disposed' );
+        }
+
+        /**
+         * compare two option values. nested option objects such as 'minimap' are compared by value
+         * 
+         * @private
+         * @param {*} a a option value
+         * @param {*} b a option value
+         * @returns {boolean} true if both values are equivalent; false otherwise
+         * @memberof MonacoEditorStore
+         */
+        private optionValuesEqual ( a: any, b: any ): boolean
+        {
+            if ( a === b )
+                return true;
+
+            if ( typeof a !== 'object' || typeof b !== 'object' || a === null || b === null )
+                return false;
+
+            return JSON.stringify( a ) === JSON.stringify( b );
+        }
+
+        /**
+         * update's layout or size of all editors currently in the store. editors are laid out automatically when their
+         * DOM element changes size, so this is only needed when something else affects their layout.
+         * 
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        resizeAll (): void
+        {
+            for ( var id in this._monacoEditorInstances )
+            {
+                if ( !this._monacoEditorInstances.hasOwnProperty( id ) )
+                    continue;
+
+                var editor = this._monacoEditorInstances[ id ];
+                editor.layout();
+            }
+
+            for ( var diffId in this._monacoDiffEditorInstances )
+            {
+                if ( !this._monacoDiffEditorInstances.hasOwnProperty( diffId ) )
+                    continue;
+
+                this._monacoDiffEditorInstances[ diffId ].layout();
+            }
+        }
+
+        /**
+         * get a editor from the store by unique id. when the id belongs to a diff editor the diff editor's modified 
+         * editor is returned
+         * 
+         * @param {string} id id of dom element representing a monaco-editor
+         * @returns {monaco.editor.ICodeEditor} the editor with unique id matching  id or null if no editor in store 
+         * matches id
+         * @memberof my.IMonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        get ( id: string ): monaco.editor.ICodeEditor
+        {
+            if ( id === null || id === '' )
+                throw new Error( "the id argument may not be null, empty, undefined, or blank" );
+
+            if ( this._monacoDiffEditorInstances.hasOwnProperty( id ) )
+                return this._monacoDiffEditorInstances[ id ].getModifiedEditor();
+
+            return this._monacoEditorInstances[ id ];
+        }
+
+        /**
+         * get a diff editor from the store by unique id
+         * 
+         * @param {string} id id of dom element representing a monaco diff editor
+         * @returns {monaco.editor.IStandaloneDiffEditor} the diff editor with unique id matching id or undefined if no 
+         * diff editor in store matches id
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        getDiffEditor ( id: string ): monaco.editor.IStandaloneDiffEditor
+        {
+            if ( id === null || id === '' )
+                throw new Error( "the id argument may not be null, empty, undefined, or blank" );
+
+            return this._monacoDiffEditorInstances[ id ];
+        }
+
+        /**
+         * get the navigator used to move between the changes of a diff editor in the store
+         * 
+         * @param {string} id id of dom element representing a monaco diff editor
+         * @returns {monaco.editor.IDiffNavigator} the navigator of the diff editor with unique id matching id or 
+         * undefined if no diff editor in store matches id
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        getDiffNavigator ( id: string ): monaco.editor.IDiffNavigator
+        {
+            if ( id === null || id === '' )
+                throw new Error( "the id argument may not be null, empty, undefined, or blank" );
+
+            return this._monacoDiffNavigators[ id ];
+        }
+
+        /**
+         * list the text models created by the store that are still alive. bindings to the same observable, or with the 
+         * same 'meModelUri', share one model which is disposed once the last editor using it is gone
+         * 
+         * @returns {IMonacoEditorModelInfo[]} the live models and the ids of the editors using each
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        getModels (): IMonacoEditorModelInfo[]
+        {
+            return this._sharedModels.map( ( entry ) =>
+            {
+                return {
+                    uri: entry.model.uri.toString(),
+                    model: entry.model,
+                    editorIds: entry.editorIds.slice()
+                };
+            } );
+        }
+
+        /**
+         * create a editor instance from the DOM element element configured with all valid 
+         * parsable options found in the koOptionsObject object literal and persist in the 
+         * IMonacoEditorStore
+         * 
+         * @param {HTMLElement} element a DOM element to create the editor within
+         * @param {*} koOptionsObject a object literal of monaco editor options. 
+         * @param {() => any} koModelPropAccessor a knockout model accessor function
+         * @param {KnockoutAllBindingsAccessor} [allBindingsAccessor] a knockout accessor for the other bindings on the 
+         * element. used to bind the editor state companion bindings 'meCursor', 'meSelection', 'meSelectedText', 
+         * 'meLineCount' and 'meHasFocus', the marker bindings 'meMarkers' and 'meModelMarkers', the document 
+         * bindings 'meDocuments' and 'meActiveDocument', 'meActions', the provider bindings 'meCompletions', 'meHover' 
+         * and 'meSignatureHelp', 'meEditor' which receives the created editor, the loading state bindings 'meLoading' 
+         * and 'meLoadError', 'meModelUri' which names a model to share with other bindings and 'meLazy' which shows a 
+         * preview until the editor is needed
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         * @see https://microsoft.github.io/monaco-editor/api/interfaces/monaco.editor.ieditorconstructionoptions.html
+         * @example To create new editor and persist
+         * ```typescript
+         * // from within a binding handler function that has a value accessor available
+         * let e = document.createElement("div");
+         * let store  = new MonacoEditorStore();
+         * let o = {
+         *     language : 'javascript',
+         *     theme: 'vs-dark'
+         * };
+         * 
+         * store.create(e, o, valueAccessor);;
+         * 
+         * // then if need access to it
+         * let editor = store.get(e.id);
+         * ```
+         */
+        create ( element: HTMLElement, options: any, koModelPropAccessor: () => any, allBindingsAccessor?: KnockoutAllBindingsAccessor ): void
+        {
+            // ensure that the element has a valid id
+            if ( !element.id )
+                element.id = this.getNextId();
+
+            delete this._readyErrors[ element.id ];
+
+            // keep the parsed options so updates made while monaco is loading are not lost
+            this._monacoEditorOptions[ element.id ] = this.parseOptions( options, element.id );
+
+            let lazy = allBindingsAccessor ? ko.toJS( allBindingsAccessor.get( 'meLazy' ) ) : undefined;
+
+            // without IntersectionObserver there is no telling when a lazy editor is needed, so create it right away
+            if ( lazy && ( window as any ).IntersectionObserver )
+                this.createLazily( element, koModelPropAccessor, allBindingsAccessor, lazy === true ? {} : lazy );
+            else
+                this.createEditor( element, koModelPropAccessor, allBindingsAccessor );
+        }
+
+        /**
+         * create the editor for a element once monaco is loaded, using the options already parsed for the element
+         * 
+         * @private
+         * @param {HTMLElement} element a DOM element with a id to create the editor within
+         * @param {() => any} koModelPropAccessor a knockout model accessor function
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @memberof MonacoEditorStore
+         */
+        private createEditor ( element: HTMLElement, koModelPropAccessor: () => any, allBindingsAccessor: KnockoutAllBindingsAccessor ): void
+        {
+            // get the actual value of the ko model prop this binding is for
+            let startingEditorValue: string = ko.utils.peekObservable( koModelPropAccessor() );
+
+            this.whenMonacoLoaded( element, allBindingsAccessor, koModelPropAccessor, () =>
+            {
+                let parsedOptions = ko.utils.extend( {}, this._monacoEditorOptions[ element.id ] ) as monaco.editor.IEditorConstructionOptions;
+
+                // the last value sent while monaco was loading wins over the starting value
+                if ( this._pendingValues.hasOwnProperty( element.id ) )
+                {
+                    startingEditorValue = this._pendingValues[ element.id ];
+                    delete this._pendingValues[ element.id ];
+                }
+
+                let modelUri = allBindingsAccessor ? ko.utils.unwrapObservable( allBindingsAccessor.get( 'meModelUri' ) ) : undefined;
+
+                parsedOptions.model = this.acquireModel( element.id, koModelPropAccessor(), modelUri, startingEditorValue, parsedOptions.language );
+
+                // create an editor instance
+                let editor = monaco.editor.create( element, parsedOptions );
+
+                this._lastSyncedValues[ element.id ] = editor.getValue();
+                this._cleanStates[ element.id ] = { records: [], refresh: () => { } };
+                this.getCleanRecord( element.id, editor.getModel() );
+
+                // when editor value changes, update the knockout field
+                editor.onDidChangeModelContent( ( e ) =>
+                {
+                    var koModelProp = koModelPropAccessor();
+                    var editorValue = editor.getValue();
+
+                    this._lastSyncedValues[ element.id ] = editorValue;
+
+                    if ( ko.isWriteableObservable( koModelProp ) )
+                        // we need to bind ko model prop and editor value prop
+                        koModelProp( editorValue );
+                } );
+
+                // when the editor switches to another model, the knockout field follows the new model's value
+                editor.onDidChangeModel( ( e ) =>
+                {
+                    var koModelProp = koModelPropAccessor();
+                    var editorValue = editor.getModel() ? editor.getValue() : '';
+
+                    this._lastSyncedValues[ element.id ] = editorValue;
+
+                    if ( ko.isWriteableObservable( koModelProp ) )
+                        koModelProp( editorValue );
+                } );
+
+                // handle disposing of the editor preoperly
+                let onElementDisposed = () =>
+                {
+                    this.disposeEditor( element.id );
+                    this.rejectReady( element.id, new Error( `'${ element.id }' was disposed` ) );
+                };
+
+                ko.utils.domNodeDisposal.addDisposeCallback( element, onElementDisposed );
+                this.addEditorDisposeCallback( element.id, () =>
+                    ko.utils.domNodeDisposal.removeDisposeCallback( element, onElementDisposed ) );
+
+                if ( allBindingsAccessor )
+                {
+                    this.bindDocuments( element, editor, allBindingsAccessor );
+                    this.bindViewState( element, editor, allBindingsAccessor );
+                    this.bindEditorState( element, editor, allBindingsAccessor );
+                    this.bindMarkers( element, editor, allBindingsAccessor );
+                    this.bindReadOnlyRanges( element, editor, allBindingsAccessor );
+                    this.bindDecorations( element, editor, allBindingsAccessor );
+                    this.bindActions( element, editor, allBindingsAccessor );
+                    this.bindProviders( element, editor, allBindingsAccessor );
+                    this.bindChanges( element, editor, allBindingsAccessor );
+                }
+
+                // persist the editor
+                this._monacoEditorInstances[ element.id ] = editor;
+                this.observeSize( element );
+
+                // hand the editor to the view model
+                if ( allBindingsAccessor && ko.isWriteableObservable( allBindingsAccessor.get( 'meEditor' ) ) )
+                {
+                    let koEditor = allBindingsAccessor.get( 'meEditor' );
+
+                    koEditor( editor );
+                    this.addEditorDisposeCallback( element.id, () => koEditor( null ) );
+                }
+
+                this.notifyCreated( element.id );
+            } );
+        }
+
+        /**
+         * show a syntax coloured preview of the bound value within the element and create the real editor only when 
+         * the element comes near the viewport or the preview receives focus. with 'dispose' set, the editor goes back to
+         * a preview once the element is far from the viewport and its view state is restored when it is created again.
+         * the bound view model property stays the source of truth for both the preview and the editor.
+         * 
+         * @private
+         * @param {HTMLElement} element a DOM element with a id to create the editor within
+         * @param {() => any} koModelPropAccessor a knockout model accessor function
+         * @param {KnockoutAllBindingsAccessor} allBindingsAccessor a knockout accessor for the other bindings on the element
+         * @param {{ dispose?: boolean }} lazyOptions the 'meLazy' options
+         * @memberof MonacoEditorStore
+         */
+        private createLazily ( element: HTMLElement, koModelPropAccessor: () => any, allBindingsAccessor: KnockoutAllBindingsAccessor, lazyOptions: { dispose?: boolean } ): void
+        {
+            let id = element.id;
+            let preview: HTMLPreElement = null;
+            let previewVersion = 0;
+            let valueSubscription: KnockoutSubscription = null;
+            let viewState: monaco.editor.ICodeEditorViewState = null;
+            let cleanValue: string = null;
+
+            let renderPreview = () =>
+            {
+                let text: string = ko.utils.peekObservable( koModelPropAccessor() ) || '';
+                let language = ( this._monacoEditorOptions[ id ] || {} as monaco.editor.IEditorConstructionOptions ).language;
+                let version = ++previewVersion;
+
+                preview.textContent = text;
+
+                // plain text stays in the preview until monaco has coloured it, or for good if monaco cannot load
+                this.loadMonaco()
+                    .then( () => monaco.editor.colorize( text, language, {} ) as any )
+                    .then( ( html: string ) =>
+                    {
+                        if ( preview && version === previewVersion )
+                            preview.innerHTML = html;
+                    }, () => { } );
+            };
+
+            let showPreview = () =>
+            {
+                let koValue = koModelPropAccessor();
+
+                preview = document.createElement( 'pre' );
+                preview.className = 'me-preview';
+                preview.tabIndex = 0;
+                preview.style.margin = '0';
+                preview.style.width = '100%';
+                preview.style.height = '100%';
+                preview.style.overflow = 'auto';
+                preview.style.boxSizing = 'border-box';
+
+                ko.utils.registerEventHandler( preview, 'focus', () => activate( true ) );
+
+                if ( ko.isSubscribable( koValue ) )
+                    valueSubscription = koValue.subscribe( () => renderPreview() );
+
+                element.appendChild( preview );
+                renderPreview();
+            };
+
+            let hidePreview = () =>
+            {
+                if ( valueSubscription )
+                    valueSubscription.dispose();
+
+                element.removeChild( preview );
+                preview = null;
+                valueSubscription = null;
+            };
+
+            let activate = ( focus: boolean ) =>
+            {
+                if ( !preview )
+                    return;
+
+                hidePreview();
+                this.createEditor( element, koModelPropAccessor, allBindingsAccessor );
+
+                this.whenReady( id ).then( ( editor ) =>
+                {
+                    if ( viewState )
+                        editor.restoreViewState( viewState );
+
+                    // the model may be new, so it is only clean when it has the content that was clean before
+                    if ( cleanValue !== null && editor.getValue() !== cleanValue )
+                    {
+                        this.getCleanRecord( id, editor.getModel() ).versionId = -1;
+                        this._cleanStates[ id ].refresh();
+                    }
+
+                    if ( focus )
+                        editor.focus();
+                }, () => { } );
+            };
+
+            let deactivate = () =>
+            {
+                let editor = this._monacoEditorInstances[ id ];
+
+                // leave editors that are loading or being typed in alone
+                if ( preview || !editor || editor.isFocused() )
+                    return;
+
+                let options = this._monacoEditorOptions[ id ];
+
+                viewState = editor.saveViewState();
+                cleanValue = this.getCleanRecord( id, editor.getModel() ).value;
+                this.disposeEditor( id );
+
+                // the options stay with the element for when the editor is created again
+                this._monacoEditorOptions[ id ] = options;
+                showPreview();
+            };
+
+            if ( !this._lazyObservers )
+            {
+                let IntersectionObserver = ( window as any ).IntersectionObserver;
+                let isIntersecting = ( entry: any ) => entry.isIntersecting || entry.intersectionRatio > 0;
+
+                this._lazyObservers = {
+                    create: new IntersectionObserver( ( entries: any[] ) => entries.forEach( ( entry ) =>
+                    {
+                        let lazyElement = this._lazyElements[ ( entry.target as HTMLElement ).id ];
+
+                        if ( lazyElement && isIntersecting( entry ) )
+                            lazyElement.activate();
+                    } ), { rootMargin: lazyCreateMargin } ),
+                    dispose: new IntersectionObserver( ( entries: any[] ) => entries.forEach( ( entry ) =>
+                    {
+                        let lazyElement = this._lazyElements[ ( entry.target as HTMLElement ).id ];
+
+                        if ( lazyElement && !isIntersecting( entry ) )
+                            lazyElement.deactivate();
+                    } ), { rootMargin: lazyDisposeMargin } )
+                };
+            }
+
+            this._lazyElements[ id ] = { activate: () => activate( false ), deactivate: deactivate };
+            this._lazyObservers.create.observe( element );
+
+            if ( lazyOptions.dispose )
+                this._lazyObservers.dispose.observe( element );
+
+            showPreview();
+
+            ko.utils.domNodeDisposal.addDisposeCallback( element, () =>
+            {
+                this._lazyObservers.create.unobserve( element );
+                this._lazyObservers.dispose.unobserve( element );
+                delete this._lazyElements[ id ];
+
+                if ( valueSubscription )
+                    valueSubscription.dispose();
+
+                // a editor that exists is cleaned up by its own dispose callback
+                if ( !this._monacoEditorInstances[ id ] )
+                {
+                    delete this._monacoEditorOptions[ id ];
+                    delete this._pendingValues[ id ];
+                    this.rejectReady( id, new Error( `'${ id }' was disposed before its editor was ready` ) );
+                }
+            } );
+        }
+
+        /**
+         * create a diff editor instance from the DOM element element configured with all valid parsable options found 
+         * in the options object literal and persist in the IMonacoEditorStore. the accessor must return a object 
+         * literal with 'original' and 'modified' properties and may include a writable 'navigator' observable that 
+         * receives the diff navigator once the diff editor is created.
+         * 
+         * @param {HTMLElement} element a DOM element to create the diff editor within
+         * @param {*} options a object literal of monaco diff editor options
+         * @param {() => any} koDiffModelAccessor a knockout accessor function returning the diff binding object literal
+         * @param {KnockoutAllBindingsAccessor} [allBindingsAccessor] a knockout accessor for the other bindings on the 
+         * element. used to bind 'meLoading' and 'meLoadError'
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         * @see https://microsoft.github.io/monaco-editor/api/interfaces/monaco.editor.idiffeditorconstructionoptions.html
+         */
+        createDiff ( element: HTMLElement, options: any, koDiffModelAccessor: () => any, allBindingsAccessor?: KnockoutAllBindingsAccessor ): void
+        {
+            // ensure that the element has a valid id
+            if ( !element.id )
+                element.id = this.getNextId();
+
+            delete this._readyErrors[ element.id ];
+
+            let diffBinding = koDiffModelAccessor() || {};
+            let startingOriginalValue = ko.utils.unwrapObservable( diffBinding.original ) || '';
+            let startingModifiedValue = ko.utils.unwrapObservable( diffBinding.modified ) || '';
+
+            // keep the parsed options so updates made while monaco is loading are not lost
+            this._monacoEditorOptions[ element.id ] = this.parseOptions( options, element.id );
+
+            this.whenMonacoLoaded( element, allBindingsAccessor, () => ( koDiffModelAccessor() || {} ).modified, () =>
+            {
+                let parsedOptions = ko.utils.extend( {}, this._monacoEditorOptions[ element.id ] ) as monaco.editor.IEditorConstructionOptions;
+                let language = parsedOptions.language;
+
+                // the last values sent while monaco was loading win over the starting values
+                if ( this._pendingValues.hasOwnProperty( element.id ) )
+                {
+                    startingOriginalValue = this._pendingValues[ element.id ].original || '';
+                    startingModifiedValue = this._pendingValues[ element.id ].modified || '';
+                    delete this._pendingValues[ element.id ];
+                }
+
+                // language and model are not diff editor options, the models are attached below
+                delete parsedOptions.language;
+                delete parsedOptions.model;
+
+                let diffEditor = monaco.editor.createDiffEditor( element, parsedOptions as monaco.editor.IDiffEditorConstructionOptions );
+                let modifiedModel = this.acquireModel( element.id, diffBinding.modified, undefined, startingModifiedValue, language );
+
+                diffEditor.setModel( {
+                    original: this.acquireModel( element.id, diffBinding.original, undefined, startingOriginalValue, language ),
+                    modified: modifiedModel
+                } );
+
+                // when the modified value changes, update the knockout field. listening on the editor rather than the 
+                // model stops the listener with the diff editor even when the model is shared
+                diffEditor.getModifiedEditor().onDidChangeModelContent( ( e ) =>
+                {
+                    var koModifiedProp = ( koDiffModelAccessor() || {} ).modified;
+
+                    if ( ko.isWriteableObservable( koModifiedProp ) )
+                        koModifiedProp( modifiedModel.getValue() );
+                } );
+
+                let navigator = monaco.editor.createDiffNavigator( diffEditor, { followsCaret: true, ignoreCharChanges: true } );
+
+                // handle disposing of the diff editor preoperly
+                ko.utils.domNodeDisposal.addDisposeCallback( element, () =>
+                {
+                    this.disposeDiffEditor( element.id );
+                    this.rejectReady( element.id, new Error( `'${ element.id }' was disposed` ) );
+                } );
+
+                // persist the diff editor
+                this._monacoDiffEditorInstances[ element.id ] = diffEditor;
+                this._monacoDiffNavigators[ element.id ] = navigator;
+                this.observeSize( element );
+
+                // hand the navigator to the view model so it can move between changes
+                if ( ko.isWriteableObservable( diffBinding.navigator ) )
+                {
+                    let koNavigator = diffBinding.navigator;
+
+                    koNavigator( navigator );
+                    this.addEditorDisposeCallback( element.id, () => koNavigator( null ) );
+                }
+
+                this.notifyCreated( element.id );
+            } );
+        }
+
+
+        /**
+         * *** Similiar to '`Store.Length > 0`' ***
+         * determine if the store contains any editors
+         * 
+         * @returns {boolean} true if one or more editor instances are found in the store; false otherwise
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        hasEditors (): boolean
+        {
+            let hasInstances = false;
+            for ( var id in this._monacoEditorInstances )
+            {
+                if ( hasInstances || !this._monacoEditorInstances.hasOwnProperty( id ) )
+                    continue;
+
+                hasInstances = true;
+            }
+
+            for ( var diffId in this._monacoDiffEditorInstances )
+            {
+                if ( hasInstances || !this._monacoDiffEditorInstances.hasOwnProperty( diffId ) )
+                    continue;
+
+                hasInstances = true;
+            }
+
+            return hasInstances;
+        }
+
+        /**
+         * get a promise for a editor in the store. the promise resolves as soon as the editor with unique id is 
+         * created, or right away when it already exists. for a diff editor the modified editor is resolved. the 
+         * promise is rejected when monaco fails to load or the element is disposed before the editor is created, and 
+         * right away when that already happened or the element was disposed, until the id is bound again
+         * 
+         * @param {string} id id of dom element representing a monaco-editor
+         * @returns {Promise<monaco.editor.ICodeEditor>} a promise resolving with the editor
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        whenReady ( id: string ): Promise<monaco.editor.ICodeEditor>
+        {
+            if ( id === null || id === '' )
+                throw new Error( "the id argument may not be null, empty, undefined, or blank" );
+
+            return new Promise<monaco.editor.ICodeEditor>( ( resolve, reject ) =>
+            {
+                let editor = this.get( id );
+
+                if ( editor )
+                    return resolve( editor );
+
+                if ( id in this._readyErrors )
+                    return reject( this._readyErrors[ id ] );
+
+                ( this._readyCallbacks[ id ] = this._readyCallbacks[ id ] || [] ).push( { resolve: resolve, reject: reject } );
+            } );
+        }
+
+        /**
+         * subscribe to the creation of editors and diff editors in the store
+         * 
+         * @param {( e: IMonacoEditorStoreEvent ) => void} callback called with the id and editor once a editor is created
+         * @returns {KnockoutSubscription} a subscription to dispose when no longer interested
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        onCreated ( callback: ( e: IMonacoEditorStoreEvent ) => void ): KnockoutSubscription
+        {
+            return this._events.subscribe( callback, null, 'created' );
+        }
+
+        /**
+         * subscribe to the disposal of editors and diff editors in the store
+         * 
+         * @param {( e: IMonacoEditorStoreEvent ) => void} callback called with the id and editor once a editor is disposed
+         * @returns {KnockoutSubscription} a subscription to dispose when no longer interested
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        onDisposed ( callback: ( e: IMonacoEditorStoreEvent ) => void ): KnockoutSubscription
+        {
+            return this._events.subscribe( callback, null, 'disposed' );
+        }
+
+        /**
+         * ** Update created bound editor when ko value changes **
+         * *update the editor's current model value if value is not equal to koModelValue. the change is applied as the 
+         * smallest possible undoable edit so the cursor, selections, scroll position and undo history are preserved. 
+         * values sent before the editor is created are queued and the last one is used to create the editor*
+         * 
+         * @param {string} id store unique identifier
+         * @param {string} koModelValue a string value of code to update the editors model value with
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        updateEditor ( id: string, koModelValue: string )
+        {
+            if ( id === null || id === '' )
+                return;
+
+            // the editor is still loading, keep the value for when it is created
+            if ( !this._monacoEditorInstances.hasOwnProperty( id ) && this._monacoEditorOptions.hasOwnProperty( id ) )
+                this._pendingValues[ id ] = koModelValue;
+
+            if ( this._monacoEditorInstances.hasOwnProperty( id ) )
+            {
+                // don't update if the value is the one the editor last pushed to the view model
+                if ( this._lastSyncedValues[ id ] === koModelValue )
+                    return;
+
+                var editor = this._monacoEditorInstances[ id ];
+
+                this.applyMinimalEdit( editor.getModel(), koModelValue, editor.getSelections() );
+            }
+        }
+
+        /**
+         * ** Update created bound diff editor when ko values change **
+         * *update the diff editor's original and modified model values when they are not equal to the given values*
+         * 
+         * @param {string} id store unique identifier
+         * @param {string} koOriginalValue a string value of code to update the original model value with
+         * @param {string} koModifiedValue a string value of code to update the modified model value with
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        updateDiffEditor ( id: string, koOriginalValue: string, koModifiedValue: string ): void
+        {
+            if ( id === null || id === '' )
+                return;
+
+            // the diff editor is still loading, keep the values for when it is created
+            if ( !this._monacoDiffEditorInstances.hasOwnProperty( id ) && this._monacoEditorOptions.hasOwnProperty( id ) )
+                this._pendingValues[ id ] = { original: koOriginalValue, modified: koModifiedValue };
+
+            if ( this._monacoDiffEditorInstances.hasOwnProperty( id ) )
+            {
+                var diffEditor = this._monacoDiffEditorInstances[ id ];
+                var diffModel = diffEditor.getModel();
+
+                this.applyMinimalEdit( diffModel.original, koOriginalValue, diffEditor.getOriginalEditor().getSelections() );
+                this.applyMinimalEdit( diffModel.modified, koModifiedValue, diffEditor.getModifiedEditor().getSelections() );
+            }
+        }
+
+        /**
+         * ** Update created bound editor when ko options change **
+         * apply a new set of options to the editor in place. only options that differ from the last applied options are
+         * pushed to the editor. 'language' is applied to the editor's model and 'theme' is applied globally since monaco
+         * themes are not per editor.
+         * 
+         * @param {string} id store unique identifier
+         * @param {*} options a object literal of monaco editor options
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        updateOptions ( id: string, options: any ): void
+        {
+            if ( id === null || id === '' || !this._monacoEditorOptions.hasOwnProperty( id ) )
+                return;
+
+            let previousOptions = this._monacoEditorOptions[ id ] as any;
+            let parsedOptions = this.parseOptions( options, id ) as any;
+            this._monacoEditorOptions[ id ] = parsedOptions;
+
+            let editor: monaco.editor.IEditor;
+            let models: monaco.editor.IModel[];
+
+            if ( this._monacoEditorInstances.hasOwnProperty( id ) )
+            {
+                editor = this._monacoEditorInstances[ id ];
+                models = [ this._monacoEditorInstances[ id ].getModel() ];
+            }
+            else if ( this._monacoDiffEditorInstances.hasOwnProperty( id ) )
+            {
+                let diffModel = this._monacoDiffEditorInstances[ id ].getModel();
+
+                editor = this._monacoDiffEditorInstances[ id ];
+                models = [ diffModel.original, diffModel.modified ];
+            }
+            else
+                // the editor is still loading, it will be created with the latest options
+                return;
+
+            let changedOptions: any = {};
+            let hasChangedOptions = false;
+
+            for ( var key in parsedOptions )
+            {
+                if ( !parsedOptions.hasOwnProperty( key ) || key === 'model' || key === 'value' )
+                    continue;
+
+                if ( this.optionValuesEqual( previousOptions[ key ], parsedOptions[ key ] ) )
+                    continue;
+
+                if ( key === 'language' )
+                    models.forEach( ( model ) => monaco.editor.setModelLanguage( model, parsedOptions.language ) );
+                else if ( key === 'theme' )
+                    monaco.editor.setTheme( parsedOptions.theme );
+                else
+                {
+                    changedOptions[ key ] = parsedOptions[ key ];
+                    hasChangedOptions = true;
+                }
+            }
+
+            if ( hasChangedOptions )
+                editor.updateOptions( changedOptions as monaco.editor.IEditorOptions );
+        }
+
+        /**
+         * set default options for every editor created from now on. the given options are merged into the current 
+         * defaults and options bound in 'meOptions' or taken from a preset win over them
+         * 
+         * @param {monaco.editor.IEditorConstructionOptions} defaults the options to use as defaults
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        configureDefaults ( defaults: monaco.editor.IEditorConstructionOptions ): void
+        {
+            ko.utils.extend( this._defaultOptions, this.validateOptions( defaults, 'defaults' ) );
+        }
+
+        /**
+         * register a named set of options that bindings can refer to with 'meOptions: { preset: name }'. the options
+         * bound in 'meOptions' win over the preset's options
+         * 
+         * @param {string} name the name of the preset
+         * @param {monaco.editor.IEditorConstructionOptions} options the options of the preset
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        registerPreset ( name: string, options: monaco.editor.IEditorConstructionOptions ): void
+        {
+            if ( !name )
+                throw new Error( "the name argument may not be null, empty, undefined, or blank" );
+
+            this._presets[ name ] = this.validateOptions( options, `preset '${ name }'` );
+        }
+
+        /**
+         * choose how monaco is loaded: with the AMD loader from a configurable path, from a monaco already on the page 
+         * or with a function resolving with monaco. affects editors created after the call. when monaco fails to load, 
+         * bindings degrade to a plain textarea bound to the same view model property
+         * 
+         * @param {IMonacoLoaderOptions} loader the loader strategy
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        configureLoader ( loader: IMonacoLoaderOptions ): void
+        {
+            if ( !loader )
+                throw new Error( "the loader argument may not be null or undefined" );
+
+            if ( loader.type === 'custom' && typeof loader.load !== 'function' )
+                throw new Error( "a custom loader requires a load function" );
+
+            this._loader = loader;
+
+            // a new loader gets a new attempt, including after a failed load
+            this._monacoLoading = null;
+        }
+
+        /**
+         * define a custom theme that editors can use by name, in 'meOptions' or the store's theme. safe to call before
+         * monaco is loaded, the theme is defined once it is
+         * 
+         * @param {string} name the name of the theme
+         * @param {monaco.editor.IStandaloneThemeData} data the theme's base theme, rules and colors
          * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
          */
-        constructor ()
+        defineTheme ( name: string, data: monaco.editor.IStandaloneThemeData ): void
         {
-            this._monacoEditorInstances = {};
-            this._nextStoreEntryId = 0;
-        }
+            if ( !name )
+                throw new Error( "the name argument may not be null, empty, undefined, or blank" );
 
-        private getNextId (): string
-        {
-            this._nextStoreEntryId += 1;
-            //return `knockout-monaco-${ this._monacoEditorIdSeed }`
-            return `${ editorDomElementIdPrefix }${ this._nextStoreEntryId }`
-        }
+            if ( !data )
+                throw new Error( "the data argument may not be null or undefined" );
 
-        private disposeEditor ( id: string ): void
-        {
-            this._monacoEditorInstances[ id ].dispose();
-            delete this._monacoEditorInstances[ id ];
+            this.runWhenMonacoLoaded( () =>
+            {
+                monaco.editor.defineTheme( name, data );
+
+                // redefining the current theme does not repaint the editors on its own
+                if ( this.theme.peek() === name )
+                    monaco.editor.setTheme( name );
+            } );
         }
 
         /**
-         * update's layout or size of all editors currently in the store.
+         * register a language with its extensions and optionally a monarch tokenizer and a language configuration. 
+         * safe to call before monaco is loaded, the language is registered once it is
          * 
+         * @param {IMonacoEditorLanguage} language the language to register
          * @memberof MonacoEditorStore
          * @extends IMonacoEditorStore
          */
-        resizeAll (): void
+        registerLanguage ( language: IMonacoEditorLanguage ): void
         {
-            for ( var id in this._monacoEditorInstances )
+            if ( !language || !language.id )
+                throw new Error( "the language argument must have a id" );
+
+            this.runWhenMonacoLoaded( () =>
             {
-                if ( !this._monacoEditorInstances.hasOwnProperty( id ) )
-                    continue;
+                monaco.languages.register( {
+                    id: language.id,
+                    extensions: language.extensions,
+                    aliases: language.aliases,
+                    mimetypes: language.mimetypes
+                } );
 
-                var editor = this._monacoEditorInstances[ id ];
-                editor.layout();
-            }
+                if ( language.monarch )
+                    monaco.languages.setMonarchTokensProvider( language.id, language.monarch );
+
+                if ( language.configuration )
+                    monaco.languages.setLanguageConfiguration( language.id, language.configuration );
+            } );
         }
 
         /**
-         * get a editor from the store by unique id
+         * mark the current content of a editor as clean, for example once it has been saved. the editor's 'meDirty' 
+         * binding becomes false until the content changes again
          * 
-         * @param {string} id id of dom element representing a monaco-editor
-         * @returns {monaco.editor.ICodeEditor} the editor with unique id matching  id or null if no editor in store 
-         * matches id
-         * @memberof my.IMonacoEditorStore
+         * @param {string} id store unique identifier
+         * @memberof MonacoEditorStore
          * @extends IMonacoEditorStore
          */
-        get ( id: string ): monaco.editor.ICodeEditor
+        markClean ( id: string ): void
         {
-            if ( id === null || id === '' )
-                throw new Error( "the id argument may not be null, empty, undefined, or blank" );
+            if ( id === null || id === '' || !this._monacoEditorInstances.hasOwnProperty( id ) )
+                return;
 
-            return this._monacoEditorInstances[ id ];
+            let model = this._monacoEditorInstances[ id ].getModel();
+            let record = this.getCleanRecord( id, model );
+
+            record.versionId = model.getAlternativeVersionId();
+            record.value = model.getValue();
+            this._cleanStates[ id ].refresh();
         }
 
         /**
-         * create a editor instance from the DOM element element configured with all valid 
-         * parsable options found in the koOptionsObject object literal and persist in the 
-         * IMonacoEditorStore
+         * put the content of a editor back to what it was when last marked clean, or when it was created. the revert is
+         * a single edit that can be undone, and the bound view model property is updated with the clean content
          * 
-         * @param {HTMLElement} element a DOM element to create the editor within
-         * @param {*} koOptionsObject a object literal of monaco editor options. 
-         * @param {() => any} koModelPropAccessor a knockout model accessor function
+         * @param {string} id store unique identifier
          * @memberof MonacoEditorStore
          * @extends IMonacoEditorStore
-         * @see https://microsoft.github.io/monaco-editor/api/interfaces/monaco.editor.ieditorconstructionoptions.html
-         * @example To create new editor and persist
-         * ```typescript
-         * // from within a binding handler function that has a value accessor available
-         * let e = document.createElement("div");
-         * let store  = new MonacoEditorStore();
-         * let o = store.parseOptions({
-         *     language : 'javascript',
-         *     theme: 'vs-dark'
-         * });
-         * 
-         * store.create(e, o, valueAccessor);;
-         * 
-         * // then if need access to it
-         * let editor = store.get(e.id);
-         * ```
          */
-        create ( element: HTMLElement, options: any, koModelPropAccessor: () => any ): void
+        revert ( id: string ): void
         {
-            // ensure that the element has a valid id
-            if ( !element.id )
-                element.id = this.getNextId();
-
-            // get the actual value of the ko model prop this binding is for
-            let startingEditorValue = ko.utils.unwrapObservable( koModelPropAccessor() );
-
-            require( [ 'vs/editor/editor.main' ], () =>
-            {
-                let parsedOptions = this.parseOptions( options );
+            if ( id === null || id === '' || !this._monacoEditorInstances.hasOwnProperty( id ) )
+                return;
 
-                parsedOptions.model = monaco.editor.createModel( startingEditorValue, parsedOptions.language );
+            let editor = this._monacoEditorInstances[ id ];
+            let model = editor.getModel();
+            let record = this.getCleanRecord( id, model );
 
-                // create an editor instance
-                let editor = monaco.editor.create( element, parsedOptions );
+            this.applyMinimalEdit( model, record.value, editor.getSelections() );
 
-                // when editor value changes, update the knockout field
-                editor.onDidChangeModelContent( ( e ) =>
-                {
-                    var koModelProp = koModelPropAccessor();
+            // the revert is a edit of its own, so the clean version moves to it
+            record.versionId = model.getAlternativeVersionId();
+            this._cleanStates[ id ].refresh();
+        }
 
-                    if ( ko.isWriteableObservable( koModelProp ) )
-                        // we need to bind ko model prop and editor value prop
-                        koModelProp( ko.monacoEditors.get( element.id ).getValue() );
-                } );
+        /**
+         * choose where view states of editors bound with 'meStateKey' are saved. defaults to localStorage
+         * 
+         * @param {IMonacoEditorStateStorage} storage the storage adapter
+         * @memberof MonacoEditorStore
+         * @extends IMonacoEditorStore
+         */
+        configureStateStorage ( storage: IMonacoEditorStateStorage ): void
+        {
+            if ( !storage )
+                throw new Error( "the storage argument may not be null or undefined" );
 
-                // handle disposing of the editor preoperly
-                ko.utils.domNodeDisposal.addDisposeCallback( element, () =>
-                {
-                    //this.disposeEditor( element.id );
-                    this._monacoEditorInstances[ element.id ].dispose();
-                    delete this._monacoEditorInstances[ element.id ];
-                } );
+            this._stateStorage = storage;
 
-                // persist the editor
-                this._monacoEditorInstances[ element.id ] = editor;
-            } );
+            // states read from the previous storage do not belong to the new one
+            this._viewStates = {};
         }
 
-
         /**
-         * *** Similiar to '`Store.Length > 0`' ***
-         * determine if the store contains any editors
+         * get every saved view state by 'meStateKey', for example to keep them with a user's profile
          * 
-         * @returns {boolean} true if one or more editor instances are found in the store; false otherwise
+         * @returns {{ [ key: string ]: monaco.editor.ICodeEditorViewState }} the saved view states by key
          * @memberof MonacoEditorStore
          * @extends IMonacoEditorStore
          */
-        hasEditors (): boolean
+        exportState (): { [ key: string ]: monaco.editor.ICodeEditorViewState }
         {
-            let hasInstances = false;
-            for ( var id in this._monacoEditorInstances )
-            {
-                if ( hasInstances || !this._monacoEditorInstances.hasOwnProperty( id ) )
-                    continue;
+            let states: { [ key: string ]: monaco.editor.ICodeEditorViewState } = {};
+            let keys: string[] = [];
 
-                hasInstances = true;
+            try
+            {
+                keys = this._stateStorage.keys ? this._stateStorage.keys() : [];
+            }
+            catch ( error )
+            {
+                console.warn( 'the saved view states cannot be listed', error );
             }
 
-            return hasInstances;
+            // live editors give their current state rather than the last one saved
+            for ( var id in this._stateKeys )
+                if ( this._stateKeys.hasOwnProperty( id ) && this._monacoEditorInstances.hasOwnProperty( id ) )
+                    this.saveViewState( this._stateKeys[ id ], this._monacoEditorInstances[ id ].saveViewState() );
+
+            for ( var key in this._viewStates )
+                if ( this._viewStates.hasOwnProperty( key ) && keys.indexOf( key ) < 0 )
+                    keys.push( key );
+
+            keys.forEach( ( key ) =>
+            {
+                let viewState = this.loadViewState( key );
+
+                if ( viewState )
+                    states[ key ] = viewState;
+            } );
+
+            return states;
         }
 
         /**
-         * ** Update created bound editor when ko value changes **
-         * *update the editor's current model value if value is not equal to koModelValue*
+         * save view states by 'meStateKey', restoring them in the live editors bound to those keys
          * 
-         * @param {string} id store unique identifier
-         * @param {string} koModelValue a string value of code to update the editors model value with
+         * @param {{ [ key: string ]: monaco.editor.ICodeEditorViewState }} states the view states by key
          * @memberof MonacoEditorStore
          * @extends IMonacoEditorStore
          */
-        updateEditor ( id: string, koModelValue: string )
+        importState ( states: { [ key: string ]: monaco.editor.ICodeEditorViewState } ): void
         {
-            if ( id !== null && id !== '' && this._monacoEditorInstances.hasOwnProperty( id ) )
-            {
-                var editor = this._monacoEditorInstances[ id ];
+            if ( !states )
+                throw new Error( "the states argument may not be null or undefined" );
 
-                // don't update if the values are the same
-                if ( editor.getValue() !== koModelValue )
-                {
-                    editor.setValue( koModelValue );
+            for ( var key in states )
+                if ( states.hasOwnProperty( key ) )
+                    this.saveViewState( key, states[ key ] );
 
-                    // navigate to the editor begining
-                    editor.setPosition( {
-                        column: 0,
-                        lineNumber: 0
-                    } as monaco.IPosition )
-                }
+            for ( var id in this._stateKeys )
+            {
+                let viewState = states[ this._stateKeys[ id ] ];
+
+                if ( this._stateKeys.hasOwnProperty( id ) && viewState && this._monacoEditorInstances.hasOwnProperty( id ) )
+                    this._monacoEditorInstances[ id ].restoreViewState( viewState );
             }
         }
     }
@@ -418,17 +4174,17 @@ module my
             {
                 console.debug( 'executing the ko monaco init handler' );
 
-                let options: monaco.editor.IEditorConstructionOptions;
-                if ( allBindingsAccessor.has( 'meOptions' ) )
-                {
-                    options = allBindingsAccessor.get( 'meOptions' ) || {};
-                } else
-                {
-                    //TODO: handle this case by creating default options. Will allow a more simple DOM declaration
-                    throw new Error( 'a "meOptions" property cannot be found on the monaco-editor DOM nockout binding' )
-                }
+                // unwrap the options object and any observable options within it so that the editor is updated when
+                // any of them change. a missing options object falls back to the store's defaults
+                let options = ko.computed( () => ko.toJS( allBindingsAccessor.get( 'meOptions' ) ) || {},
+                    null, { disposeWhenNodeIsRemoved: element } );
 
-                ko.monacoEditors.create( element, options, valueAccessor );
+                ko.monacoEditors.create( element, options(), valueAccessor, allBindingsAccessor );
+
+                options.subscribe( ( changedOptions: any ) =>
+                {
+                    ko.monacoEditors.updateOptions( element.id, changedOptions );
+                } );
             }
         update =
             /**
@@ -460,15 +4216,285 @@ module my
             };
     }
 
+    /**
+     * A knockout binding handler implementation to create monaco diff editor instances and bind the original and 
+     * modified values with knockout view model
+     * 
+     * @class MonacoDiffBindingHandlerHelper
+     * @implements {KnockoutBindingHandler}
+     */
+    class MonacoDiffBindingHandlerHelper implements KnockoutBindingHandler
+    {
+        init =
+            /**
+            * create the diff editor for the DOM element. the binding value is a object literal with 'original' and 
+            * 'modified' values and an optional 'navigator' observable. options are read from 'meOptions' the same way 
+            * as the koMonacoEditor binding.
+            * @param {HTMLElement} element — The DOM element involved in this binding
+            * @param {() => any} valueAccessor — A JavaScript function that returns the diff binding object literal
+            * @param {KnockoutAllBindingsAccessor} allBindingsAccessor — A JavaScript object that you can use to access 
+            * all the model values bound to this DOM element.
+            * @param {*} viewModel — This parameter is deprecated in Knockout 3.x.
+            * @param {KnockoutBindingContext} bindingContext — An object that holds the binding context available to this 
+            * element’s bindings.
+            */
+            function ( element: HTMLElement, valueAccessor: () => any, allBindingsAccessor: KnockoutAllBindingsAccessor, viewModel: any, bindingContext: KnockoutBindingContext )
+            {
+                // unwrap the options object and any observable options within it so that the diff editor is updated 
+                // when any of them change
+                let options = ko.computed( () => ko.toJS( allBindingsAccessor.get( 'meOptions' ) ) || {},
+                    null, { disposeWhenNodeIsRemoved: element } );
+
+                ko.monacoEditors.createDiff( element, options(), valueAccessor, allBindingsAccessor );
+
+                options.subscribe( ( changedOptions: any ) =>
+                {
+                    ko.monacoEditors.updateOptions( element.id, changedOptions );
+                } );
+            }
+        update =
+            /**
+            * push the original and modified values to the diff editor whenever either of them change
+            * @param {HTMLElement} element — The DOM element involved in this binding
+            * @param {() => any} valueAccessor — A JavaScript function that returns the diff binding object literal
+            * @param {KnockoutAllBindingsAccessor} allBindingsAccessor — A JavaScript object that you can use to access 
+            * all the model values bound to this DOM element.
+            * @param {*} viewModel — This parameter is deprecated in Knockout 3.x.
+            * @param {KnockoutBindingContext} bindingContext — An object that holds the binding context available to this 
+            * element’s bindings.
+            */
+            function ( element: HTMLElement, valueAccessor: () => any, allBindingsAccessor: KnockoutAllBindingsAccessor, viewModel: any, bindingContext: KnockoutBindingContext )
+            {
+                var diffBinding = valueAccessor() || {};
+                var originalValue = ko.utils.unwrapObservable( diffBinding.original );
+                var modifiedValue = ko.utils.unwrapObservable( diffBinding.modified );
+
+                ko.monacoEditors.updateDiffEditor( element.id, originalValue, modifiedValue );
+            };
+    }
+
+    /**
+     * The view model of the 'monaco-editor' component. wraps a 'koMonacoEditor' binding, so the editor is registered in
+     * ko.monacoEditors like any other, with a optional toolbar bound to the editor's live options
+     * 
+     * @class MonacoEditorComponent
+     */
+    class MonacoEditorComponent
+    {
+        /**
+         * the id of the editor's DOM element, or undefined to let the store give it one
+         * 
+         * @type {string}
+         * @memberof MonacoEditorComponent
+         */
+        id: string;
+
+        /**
+         * the view model property bound to the editor's value
+         * 
+         * @type {*}
+         * @memberof MonacoEditorComponent
+         */
+        value: any;
+
+        /**
+         * the created editor, null until the editor exists
+         * 
+         * @type {KnockoutObservable<monaco.editor.ICodeEditor>}
+         * @memberof MonacoEditorComponent
+         */
+        editor: KnockoutObservable<monaco.editor.ICodeEditor>;
+
+        language: KnockoutObservable<string>;
+        fontSize: KnockoutObservable<number>;
+        wordWrap: KnockoutObservable<boolean>;
+
+        /**
+         * the theme picked in the toolbar. monaco themes are global, so this is the store's theme for the whole app
+         * 
+         * @type {KnockoutObservable<string>}
+         * @memberof MonacoEditorComponent
+         */
+        theme: KnockoutObservable<string>;
+
+        languages: KnockoutObservableArray<string>;
+        themes: KnockoutObservableArray<string>;
+
+        /**
+         * the editor options, made of the 'options' param and the options picked in the toolbar
+         * 
+         * @type {KnockoutComputed<any>}
+         * @memberof MonacoEditorComponent
+         */
+        options: KnockoutComputed<any>;
+
+        /**
+         * the name of a template of custom toolbar buttons, rendered after the built-in tools
+         * 
+         * @type {string}
+         * @memberof MonacoEditorComponent
+         */
+        toolbarTemplate: string;
+
+        hasToolbar: boolean;
+
+        private _tools: string[];
+        private _editorSubscription: KnockoutSubscription;
+
+        constructor ( params: any, componentInfo: KnockoutComponentTypes.ComponentInfo )
+        {
+            if ( !params || params.value === undefined )
+                throw new Error( `the '${ editorComponentName }' component requires a 'value' param` );
+
+            let toolbar = ko.utils.unwrapObservable( params.toolbar );
+            let templateNodes = ( componentInfo.templateNodes || [] ).filter( ( node ) =>
+                node.nodeType === 1 || ( node.nodeType === 3 && /\S/.test( node.nodeValue ) ) );
+
+            this.id = ko.utils.unwrapObservable( params.id );
+            this.value = params.value;
+            this.editor = ko.isWriteableObservable( params.editor ) ? params.editor : ko.observable<monaco.editor.ICodeEditor>( null );
+            this.language = this.toObservable( params.language );
+            this.fontSize = this.toObservable( params.fontSize );
+            this.wordWrap = this.toObservable( params.wordWrap );
+            this.theme = ko.monacoEditors.theme;
+            this.languages = ko.observableArray<string>( ko.utils.unwrapObservable( params.languages ) || [] );
+            this.themes = ko.observableArray<string>( ko.utils.unwrapObservable( params.themes ) || [ 'vs', 'vs-dark', 'hc-black' ] );
+            this.toolbarTemplate = ko.utils.unwrapObservable( params.toolbarTemplate );
+            this._tools = toolbar === true ? editorComponentTools : ( toolbar || [] );
+            this.hasToolbar = this._tools.length > 0 || !!this.toolbarTemplate || templateNodes.length > 0;
+
+            this.options = ko.computed( () =>
+            {
+                let options: any = ko.utils.extend( {}, ko.toJS( params.options ) || {} );
+
+                if ( params.theme !== undefined )
+                    options.theme = ko.utils.unwrapObservable( params.theme );
+
+                if ( this.language() )
+                    options.language = this.language();
+
+                if ( this.fontSize() )
+                    options.fontSize = this.fontSize();
+
+                // a wrapping mode from the options, such as 'bounded', is kept for as long as the toggle agrees with it
+                if ( this.wordWrap() !== undefined &&
+                    ( options.wordWrap === undefined || ( options.wordWrap !== 'off' ) !== this.wordWrap() ) )
+                    options.wordWrap = this.wordWrap() ? 'on' : 'off';
+
+                return options;
+            } );
+
+            // the toolbar shows the editor's own state for anything the params leave out
+            this._editorSubscription = this.editor.subscribe( ( editor ) =>
+            {
+                if ( !editor )
+                    return;
+
+                let configuration = editor.getConfiguration();
+
+                if ( this.languages().length === 0 )
+                    this.languages( monaco.languages.getLanguages().map( ( language ) => language.id ) );
+
+                if ( !this.language() && editor.getModel() )
+                    this.language( editor.getModel().getModeId() );
+
+                if ( !this.fontSize() )
+                    this.fontSize( configuration.fontInfo.fontSize );
+
+                if ( this.wordWrap() === undefined && this.hasTool( 'wrap' ) )
+                {
+                    let wordWrap = ( ko.toJS( params.options ) || {} ).wordWrap;
+
+                    this.wordWrap( wordWrap !== undefined ? wordWrap !== 'off' : configuration.wrappingInfo.isViewportWrapping );
+                }
+            } );
+        }
+
+        /**
+         * use a writable observable param as it is so the toolbar writes back to it, or wrap any other param in a 
+         * new observable
+         * 
+         * @private
+         * @template T
+         * @param {*} param a component param
+         * @returns {KnockoutObservable<T>} a writable observable for the param
+         * @memberof MonacoEditorComponent
+         */
+        private toObservable<T> ( param: any ): KnockoutObservable<T>
+        {
+            return ko.isWriteableObservable( param ) ? param : ko.observable<T>( ko.utils.unwrapObservable( param ) );
+        }
+
+        hasTool = ( tool: string ): boolean =>
+        {
+            return this._tools.indexOf( tool ) >= 0;
+        };
+
+        increaseFontSize = (): void =>
+        {
+            this.fontSize( ( this.fontSize() || 0 ) + 1 );
+        };
+
+        decreaseFontSize = (): void =>
+        {
+            this.fontSize( Math.max( ( this.fontSize() || 0 ) - 1, 6 ) );
+        };
+
+        format = (): void =>
+        {
+            this.runAction( 'editor.action.formatDocument' );
+        };
+
+        find = (): void =>
+        {
+            this.runAction( 'actions.find' );
+        };
+
+        /**
+         * run a editor action by id when the editor exists and supports it
+         * 
+         * @private
+         * @param {string} id the id of the editor action
+         * @memberof MonacoEditorComponent
+         */
+        private runAction ( id: string ): void
+        {
+            let editor = this.editor();
+            let action = editor ? editor.getAction( id ) : null;
+
+            if ( action )
+            {
+                editor.focus();
+                action.run();
+            }
+        }
+
+        /**
+         * called by knockout when the component is removed
+         * 
+         * @memberof MonacoEditorComponent
+         */
+        dispose (): void
+        {
+            this._editorSubscription.dispose();
+            this.options.dispose();
+        }
+    }
+
     // create the editor instance store
     ko.monacoEditors = new MonacoEditorStore();
 
     // add the created custom binding handler to knockout's handler collection
     ko.bindingHandlers.koMonacoEditor = new MonacoBindingHandlerHelper();
 
-    // ensure that any editor instances get resized upon the window resizing
-    window.onresize = function ()
-    {
-        ko.monacoEditors.resizeAll();
-    };
+    // add the diff editor binding handler along side of the editor binding handler
+    ko.bindingHandlers.koMonacoDiffEditor = new MonacoDiffBindingHandlerHelper();
+
+    // register the editor component that wraps the editor binding handler with a toolbar
+    ko.components.register( editorComponentName, {
+        viewModel: {
+            createViewModel: ( params: any, componentInfo: KnockoutComponentTypes.ComponentInfo ) => new MonacoEditorComponent( params, componentInfo )
+        },
+        template: editorComponentTemplate
+    } );
 }
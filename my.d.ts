@@ -30,6 +30,16 @@ interface KnockoutBindingHandlers
      * @memberof KnockoutBindingHandlers
      */
     koMonacoEditor: KnockoutBindingHandler;
+
+    /**
+     * custom knockout binding handler to create monaco diff editor instances and bind the original and modified 
+     * values to knockout observable properties in view model. The modified value is bound two-way. Options are
+     * configured with the meOptions object literal the same as the koMonacoEditor binding.
+     * 
+     * @type {KnockoutBindingHandler}
+     * @memberof KnockoutBindingHandlers
+     */
+    koMonacoDiffEditor: KnockoutBindingHandler;
 }
 
 /**
@@ -47,4 +57,7 @@ interface KnockoutStatic
     monacoEditors: my.IMonacoEditorsStore;
 }
 
-declare var require: ( ...args: any[] ) => any;
\ No newline at end of file
+declare var require: {
+    ( ...args: any[] ): any;
+    config ( config: any ): void;
+};
\ No newline at end of file